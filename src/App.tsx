@@ -23,11 +23,72 @@
  * @created 2024
  */
 
-import React, { useState, useEffect, useMemo } from 'react'
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react'
 import { getToken, getRecommendations, FALLBACK_TRACKS } from './lib/spotify'
-import type { Track } from './types'
+import type { AcceptanceModel, AlgorithmConfig, ArcFit, BanditPolicy, ClusterMethod, ClusterScope, Clustering, CollaborativeResult, Counterfactual, DiversityMethod, FactorModel, FactorizationMethod, FeatureKey, FeedbackLoopResult, FeedbackSource, Genre, Interaction, InteractionKind, OptimizedPlaylist, Playlist, PlaylistConstraints, RankedTrack, ScalerKind, Track } from './types'
+import { DEFAULT_SEED, createRandomService, diversify, intraListDiversity, beamSearch, createNormalizer, FEATURE_KEYS, generateListenerPopulation, createBandit, selectArm, updateBandit, toCamelot, formatCamelot, keyName, ARC_PRESETS, interpolateCurve, debiasPopularity, popularityHistogram, splitHeadTail, inClusterScope, NOISE, explainRanking, interactionsFromListeners, factorCorrelations, PERCEPTUAL_KEYS } from './lib/engine'
+import { createEngineBridge, isCancelled } from './lib/worker/bridge'
+import type { BanditSimulation, EngineJobResults, GraphWalk } from './lib/worker/protocol'
 import CustomDropdown from './components/CustomDropdown'
+import CollaborativePanel from './components/CollaborativePanel'
+import ContentPanel from './components/ContentPanel'
+import PlaylistChain from './components/PlaylistChain'
+import CostComparisonChart from './components/CostComparisonChart'
+import LookaheadPanel from './components/LookaheadPanel'
+import DiversityControls from './components/DiversityControls'
+import PopularityControls from './components/PopularityControls'
+import ClusterPanel from './components/ClusterPanel'
+import BanditPanel from './components/BanditPanel'
+import HarmonicPanel from './components/HarmonicPanel'
+import TempoControls from './components/TempoControls'
+import ArcPanel from './components/ArcPanel'
+import FeedbackLoopPanel from './components/FeedbackLoopPanel'
+import ExplanationPanel from './components/ExplanationPanel'
+import CounterfactualPanel from './components/CounterfactualPanel'
+import ConstraintPanel from './components/ConstraintPanel'
+import GenreControls from './components/GenreControls'
+import LatentFactorsPanel from './components/LatentFactorsPanel'
+import GraphPanel from './components/GraphPanel'
 import { INFO_CONTENT, FEATURE_DETAILS } from './data/infoContent'
+import { GENRE_COLORS, genreForArtist } from './data/genres'
+
+// Synthetic listener population used by collaborative filtering
+const POPULATION_SIZE = 200
+
+// Rounds each bandit policy plays against the simulated listener
+const BANDIT_ROUNDS = 200
+
+// User id your own plays, skips and likes are logged under
+const ACTIVE_USER = 'you'
+
+// Placeholder until the first clustering arrives from the worker
+const NO_CLUSTERS: Clustering = { method: 'kmeans', clusters: [], assignments: new Map(), noise: 0, silhouette: 0 }
+
+// Random jitter on the slider ranking; why-not probes replay the same noise
+const RANK_JITTER = 0.1
+
+// Candidates each algorithm hands to diversity re-ranking, and the list length shown
+const CANDIDATE_POOL = 45
+const LIST_SIZE = 15
+
+/**
+ * Read the random seed from the `?seed=` URL parameter so shared links reproduce
+ * the same rankings, listeners and synthetic features; a missing or empty
+ * value means DEFAULT_SEED
+ */
+const readSeedFromUrl = (): number => {
+  const param = new URLSearchParams(window.location.search).get('seed')
+  const value = param?.trim() ? Number(param) : NaN
+  return Number.isInteger(value) && value >= 0 ? value : DEFAULT_SEED
+}
+
+// Pause after the last seed edit before fetching the catalog again
+const SEED_RELOAD_DELAY = 400
+
+// Superseded engine requests are expected; anything else is logged
+const reportEngineError = (error: unknown) => {
+  if (!isCancelled(error)) console.error('Engine worker error:', error)
+}
 
 function App() {
   // ============================================================================
@@ -41,11 +102,69 @@ function App() {
   
   // User interaction state
   const [selectedFeature, setSelectedFeature] = useState<keyof Track | null>(null) // Selected audio feature
-  const [selectedAlgorithm, setSelectedAlgorithm] = useState('greedy')             // Algorithm type (only greedy works)
+  const [selectedAlgorithm, setSelectedAlgorithm] = useState('greedy')             // Algorithm type
   const [sliderValue, setSliderValue] = useState(0)                               // Slider position (0-29)
+  const [scalerKind, setScalerKind] = useState<ScalerKind>('minmax')              // Feature normalization method
+  const [playlistLength, setPlaylistLength] = useState(8)                         // Tracks in the greedy playlist
+  const [tempoAware, setTempoAware] = useState(false)                             // Score hops on BPM ratio and meter too
+  const [pitchTolerance, setPitchTolerance] = useState(0.08)                      // Largest tempo shift a DJ would apply
+  const [playlistRules, setPlaylistRules] = useState<PlaylistConstraints>({ length: 8, artistGap: 2 }) // Rules for the constrained playlist
+  const [arcPoints, setArcPoints] = useState(ARC_PRESETS[0].points)               // Control points of the playlist shape
+  const [beamWidth, setBeamWidth] = useState(3)                                   // Beam search: sequences kept per step
+  const [searchDepth, setSearchDepth] = useState(3)                               // Beam search: tracks looked ahead
+  const [seed, setSeed] = useState(readSeedFromUrl)                                // Seed for every random choice
+  const [diversityMethod, setDiversityMethod] = useState<DiversityMethod>('none') // Re-ranking applied to every list
+  const [diversityLambda, setDiversityLambda] = useState(0.7)                     // Relevance/diversity trade-off
+  const [ipw, setIpw] = useState(false)                                           // Inverse-propensity weighting on popularity
+  const [tailBoost, setTailBoost] = useState(0)                                   // Extra relevance for long-tail tracks
+  const [headShare, setHeadShare] = useState(0.2)                                 // Share of the catalog counted as head
+  const [clusterMethod, setClusterMethod] = useState<ClusterMethod>('kmeans')      // How the feature space is clustered
+  const [dbscanEps, setDbscanEps] = useState(0.45)                                // DBSCAN neighbourhood radius
+  const [clusterFilter, setClusterFilter] = useState<number | null>(null)         // Cluster the track list is limited to
+  const [clusterScope, setClusterScope] = useState<ClusterScope>('any')           // Stay in / jump cluster for the next track
+  const [genreFilter, setGenreFilter] = useState<Genre | null>(null)              // Genre the track list is limited to
+  const [colorByGenre, setColorByGenre] = useState(false)                         // Mark track cards with their genre's color
+  const [genreWeight, setGenreWeight] = useState(0)                               // Content-based distance outside the seed's genre
+  const [whyNotId, setWhyNotId] = useState<string | null>(null)                   // Track probed with "why not this one?"
+  const [banditPolicy, setBanditPolicy] = useState<BanditPolicy>('thompson')       // Bandit exploration policy
+  const [epsilon, setEpsilon] = useState(0.1)                                     // Epsilon-greedy exploration rate
+  const [feedbackSource, setFeedbackSource] = useState<FeedbackSource>('simulated') // Who likes or skips bandit picks
+  const [banditSession, setBanditSession] = useState(() => createBandit([]))      // Your like/skip history
+  const [interactions, setInteractions] = useState<Interaction[]>([])             // Your plays, skips and likes on the track cards
+  const [factorMethod, setFactorMethod] = useState<FactorizationMethod>('als')     // Matrix factorization: ALS or BPR
+  const [restartProbability, setRestartProbability] = useState(0.15)              // Graph walk: chance of jumping back to the seed
+  const [walkLength, setWalkLength] = useState(10)                                // Graph walk: steps simulated
+  const [loopRounds, setLoopRounds] = useState(200)                               // Feedback loop: rounds simulated
+  const [acceptanceModel, setAcceptanceModel] = useState<AcceptanceModel>('probabilistic') // Feedback loop: how the listener responds
+  const [feedbackLoop, setFeedbackLoop] = useState<FeedbackLoopResult | null>(null) // Feedback loop: last simulation
+  const [loopProgress, setLoopProgress] = useState<number | null>(null)           // Feedback loop: share of rounds done while running
+
+  // Engine worker state
+  // One worker per lane, so slider ranking never queues behind slower jobs
+  const [ranker] = useState(createEngineBridge)                                   // Slider ranking only
+  const [engine] = useState(createEngineBridge)                                   // Other interactive engine work off the main thread
+  const [background] = useState(createEngineBridge)                               // Clustering, training and long simulations
+  const [rankedTracks, setRankedTracks] = useState<RankedTrack[]>([])             // Slider ranking, from the worker
+  const [searchRecommendations, setSearchRecommendations] = useState<RankedTrack[] | null>(null) // Beam search ranking, from the worker
+  const [collaborativeResult, setCollaborativeResult] = useState<CollaborativeResult | null>(null) // Similar listeners' picks, from the worker
+  const [contentRecommendations, setContentRecommendations] = useState<RankedTrack[] | null>(null) // Whole-vector similarity, from the worker
+  const [harmonicRecommendations, setHarmonicRecommendations] = useState<RankedTrack[] | null>(null) // Camelot-compatible picks, from the worker
+  const [proximityRecommendations, setProximityRecommendations] = useState<RankedTrack[] | null>(null) // Nearest tracks ignoring key, from the worker
+  const [factorRecommendations, setFactorRecommendations] = useState<RankedTrack[] | null>(null) // Latent-factor picks, from the worker
+  const [greedyPlaylist, setGreedyPlaylist] = useState<Playlist | null>(null)     // Nearest-hop playlist, from the worker
+  const [greedyNextRanking, setGreedyNextRanking] = useState<RankedTrack[] | null>(null) // Greedy's first hop as a ranking, from the worker
+  const [clustering, setClustering] = useState<Clustering>(NO_CLUSTERS)           // Feature-space clusters, from the worker
+  const [whyNot, setWhyNot] = useState<Counterfactual | null>(null)               // Counterfactual for the probed track, from the worker
+  const [constrainedPlaylist, setConstrainedPlaylist] = useState<EngineJobResults['constrain'] | null>(null) // Playlist under the rules, from the worker
+  const [arcFit, setArcFit] = useState<ArcFit | null>(null)                       // Playlist fitted to the drawn curve, from the worker
+  const [banditSimulation, setBanditSimulation] = useState<BanditSimulation | null>(null) // Every bandit policy against one listener, from the worker
+  const [optimalPlaylist, setOptimalPlaylist] = useState<OptimizedPlaylist | null>(null) // Lowest-cost playlist order, from the worker
+  const [factorModel, setFactorModel] = useState<FactorModel | null>(null)         // Latent factors, trained in the worker
+  const [graphWalk, setGraphWalk] = useState<GraphWalk | null>(null)              // Random walk over the track graph, from the worker
   
   // UI state
   const [isLoading, setIsLoading] = useState(true)           // Loading state for initial data fetch
+  const catalogLoaded = useRef(false)                        // Set once the first catalog is in, so seed changes reload quietly
   const [loadingProgress, setLoadingProgress] = useState(0)  // Loading progress percentage
   const [loadingMessage, setLoadingMessage] = useState('Starting...') // Loading status message
   const [error, setError] = useState<string | null>(null)    // Error state
@@ -74,22 +193,56 @@ function App() {
     { key: 'acousticness', label: 'Acousticness', description: 'Likelihood of being acoustic vs. electronic', format: (value) => `${(value * 100).toFixed(0)}%` }
   ]
 
+  /**
+   * Normalization methods for putting every feature on the slider's scale
+   */
+  const SCALERS: Array<{ id: ScalerKind; label: string; description: string }> = [
+    { id: 'minmax', label: 'Min-Max', description: 'Catalog minimum to maximum, stretched to 0–1' },
+    { id: 'zscore', label: 'Z-Score', description: 'Standard deviations from the catalog mean' },
+    { id: 'percentile', label: 'Percentile', description: 'Share of the catalog below each value' }
+  ]
+
   /**
    * Available algorithms for demonstration
-   * Currently only 'greedy' is functional
-   * Other algorithms are placeholders for future implementation
+   * `implemented` marks the ones the engine can run; the rest are placeholders
    */
   const ALGORITHMS = [
     { 
       id: 'greedy', 
       name: 'Greedy Algorithm', 
+      implemented: true,
       description: 'I chose greedy algorithms as the foundation for this prototype because they represent the most fundamental approach to optimization problems. Every complex recommendation system starts with greedy principles—from Spotify\'s initial similarity matching to Netflix\'s early collaborative filtering. By starting with greedy algorithms, we can isolate the core challenge: how feature selection constrains recommendation quality. This foundational approach makes the limitations visible and understandable, providing a clear baseline for understanding why more sophisticated systems are necessary.',
       pros: ['Foundational algorithmic concept', 'Clear baseline for comparison', 'Makes limitations visible', 'Fast and explainable'],
       cons: ['Locally optimal, globally suboptimal', 'Creates recommendation loops', 'Poor long-term user satisfaction']
     },
+    { 
+      id: 'search', 
+      name: 'Beam Search (Lookahead)', 
+      implemented: true,
+      description: 'Beam search keeps the same feature and target as the greedy algorithm but refuses to judge a track by a single hop. It scores whole sequences several tracks deep, keeping only the most promising few at each step, and picks the next track that starts the cheapest path. Sometimes that means a worse first step for a better journey—exactly what greedy can never do.',
+      pros: ['Plans beyond the next track', 'Tunable cost of thinking ahead', 'Same inputs as greedy, directly comparable'],
+      cons: ['Slower as beam and depth grow', 'Still blind past its horizon', 'Pruning can discard the true best path']
+    },
+    { 
+      id: 'bandit', 
+      name: 'Multi-Armed Bandit', 
+      implemented: true,
+      description: 'A bandit treats every track as a slot machine arm with an unknown chance of being liked. Each play is a bet: exploit the track that has paid off so far, or explore one it knows little about. Epsilon-greedy explores at random, UCB1 favours tracks it is unsure of, and Thompson sampling gambles in proportion to its beliefs. Feedback comes from your likes and skips, or from a simulated listener.',
+      pros: ['Learns from feedback as it goes', 'Makes the exploration trade-off explicit', 'No feature weighting to hand-tune'],
+      cons: ['Every exploratory pick costs a skip', 'Ignores what tracks sound like', 'Slow to learn with many tracks']
+    },
+    { 
+      id: 'harmonic', 
+      name: 'Harmonic Mixing (Camelot)', 
+      implemented: true,
+      description: 'DJs mix in key. The Camelot wheel arranges all 24 keys so that neighbours sound good together: the same code, its relative major or minor, or one step either way around the circle of fifths. This recommender ranks tracks by how few wheel steps they are from the current song, and only uses audio features to break ties—a musical rule rather than a statistical one.',
+      pros: ['Transitions that sound right in key', 'Uses metadata no other algorithm looks at', 'Easy to explain to a DJ'],
+      cons: ['Ignores energy, mood and tempo', 'Depends on accurate key detection', 'Many tracks share a key, so ties are common']
+    },
     { 
       id: 'collaborative', 
       name: 'Collaborative Filtering', 
+      implemented: true,
       description: 'Collaborative filtering recommends items based on user behavior patterns. It finds users with similar taste and suggests songs they liked. This approach leverages collective intelligence but can create filter bubbles and struggles with new users or niche content.',
       pros: ['Leverages collective wisdom', 'Works without content analysis', 'Good for popular music'],
       cons: ['Cold start problem', 'Creates filter bubbles', 'Poor for niche content']
@@ -97,45 +250,75 @@ function App() {
     { 
       id: 'content', 
       name: 'Content-Based Filtering', 
+      implemented: true,
       description: 'Content-based filtering analyzes the actual musical content (audio features, lyrics, metadata) to find similar songs. It recommends based on musical similarity rather than user behavior. This approach works well for new users but can be limited by the quality of feature extraction.',
       pros: ['Works for new users', 'Based on musical content', 'Good for niche genres'],
       cons: ['Limited by feature quality', 'Can be too narrow', 'Requires content analysis']
+    },
+    {
+      id: 'factorization',
+      name: 'Matrix Factorization (ALS / BPR)',
+      implemented: true,
+      description: 'Matrix factorization learns a handful of hidden "taste" dimensions for every listener and every track from nothing but behaviour: who played, skipped and liked what. Your clicks on the track cards join the synthetic listeners\' histories, and the model is retrained in your browser each time. Its dimensions are not danceability or energy—they are whatever best explains the log—so comparing them with Spotify\'s engineered features shows how much of taste the features actually capture.',
+      pros: ['Learns taste the features miss', 'Uses skips as negative evidence', 'Improves as you interact'],
+      cons: ['Tracks nobody played have no factors', 'Latent dimensions are hard to name', 'Needs enough interactions to be stable']
+    },
+    {
+      id: 'graph',
+      name: 'Graph Walk (Personalized PageRank)',
+      implemented: true,
+      description: 'Graph-based recommendation links every track to its nearest neighbours on the audio features, to other tracks by the same artist and to tracks in the same genre. A random walker starts on the current song, follows links in proportion to their strength and jumps back home with a fixed probability. The tracks it visits most are recommended—so a song two or three links away can outrank a closer one when many paths lead to it, something a nearest-neighbour or greedy pass on a single feature never does.',
+      pros: ['Reaches tracks several links away', 'Blends features, artists and genres', 'Restart probability tunes how far it roams'],
+      cons: ['Well-connected tracks collect visits', 'Depends on how the graph is built', 'Scores are hard to read as similarity']
     }
   ]
 
-  const normalizeTrack = (track: any): Track => ({
-    id: track.id,
-    name: track.name,
-    artist: track.artist || (Array.isArray(track.artists) ? track.artists[0]?.name : track.artists) || 'Unknown Artist',
-    preview: track.preview ?? track.preview_url ?? null,
-    popularity: track.popularity ?? 50,
-    danceability: track.danceability ?? 0.5,
-    energy: track.energy ?? 0.5,
-    valence: track.valence ?? 0.5,
-    tempo: track.tempo ?? 120,
-    acousticness: track.acousticness ?? 0.5,
-    instrumentalness: track.instrumentalness ?? 0.0,
-    liveness: track.liveness ?? 0.0,
-    speechiness: track.speechiness ?? 0.0,
-    loudness: track.loudness ?? -10,
-    mode: track.mode ?? 1,
-    key: track.key ?? 0,
-    time_signature: track.time_signature ?? 4
-  })
+  // Whether the selected algorithm can drive the rest of the walkthrough
+  const algorithmReady = ALGORITHMS.find(a => a.id === selectedAlgorithm)?.implemented ?? false
+
+  const normalizeTrack = (track: any): Track => {
+    const artist = track.artist || (Array.isArray(track.artists) ? track.artists[0]?.name : track.artists) || 'Unknown Artist'
+    return {
+      id: track.id,
+      name: track.name,
+      artist,
+      genre: track.genre ?? genreForArtist(artist),
+      preview: track.preview ?? track.preview_url ?? null,
+      popularity: track.popularity ?? 50,
+      danceability: track.danceability ?? 0.5,
+      energy: track.energy ?? 0.5,
+      valence: track.valence ?? 0.5,
+      tempo: track.tempo ?? 120,
+      acousticness: track.acousticness ?? 0.5,
+      instrumentalness: track.instrumentalness ?? 0.0,
+      liveness: track.liveness ?? 0.0,
+      speechiness: track.speechiness ?? 0.0,
+      loudness: track.loudness ?? -10,
+      mode: track.mode ?? 1,
+      key: track.key ?? 0,
+      time_signature: track.time_signature ?? 4
+    }
+  }
 
   // ============================================================================
   // EFFECTS & DATA LOADING
   // ============================================================================
   
   /**
-   * Load tracks on component mount
+   * Load tracks on mount and again whenever the seed changes, since the
+   * synthetic features are drawn from it: one seed, one catalog
    * Attempts to fetch from Spotify API, falls back to FALLBACK_TRACKS
-   * Simulates loading progress for better UX
+   * Simulates loading progress for better UX on the first load; later loads
+   * swap the catalog in place once the seed stops changing
    */
   useEffect(() => {
+    let cancelled = false
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+    const initial = !catalogLoaded.current
+
     const loadTracks = async () => {
       try {
-        setIsLoading(true)
+        if (initial) setIsLoading(true)
         setLoadingMessage('Initializing...')
         setLoadingProgress(10)
 
@@ -148,16 +331,19 @@ function App() {
           setLoadingProgress(50)
           const fallbackTracks: Track[] = FALLBACK_TRACKS.map(track => normalizeTrack(track))
           setTracks(fallbackTracks)
+          catalogLoaded.current = true
           setError('Using sample data for local development. Deploy to Vercel for real Spotify data!')
           setIsLoading(false)
           return
         }
         
         // Set a timeout to fall back to sample data if Spotify takes too long
-        const timeoutId = setTimeout(() => {
+        timeoutId = setTimeout(() => {
+          if (cancelled) return
           setLoadingMessage('Spotify is slow, using sample data...')
           const fallbackTracks: Track[] = FALLBACK_TRACKS.map(track => normalizeTrack(track))
           setTracks(fallbackTracks)
+          catalogLoaded.current = true
           setError('Using sample data because Spotify is unavailable right now.')
           setIsLoading(false)
         }, 10000) // 10 second timeout
@@ -166,10 +352,13 @@ function App() {
         setLoadingProgress(20)
         
         const token = await getToken()
+        if (cancelled) return
         setLoadingMessage('Fetching recommendations...')
         setLoadingProgress(40)
         
-        const recommendations = await getRecommendations(token.access_token)
+        // Synthetic features are drawn from the session seed
+        const recommendations = await getRecommendations(token.access_token, { seed })
+        if (cancelled) return
         setLoadingMessage('Processing track data...')
         const normalizedTracks: Track[] = recommendations.tracks.map(normalizeTrack)
 
@@ -181,57 +370,690 @@ function App() {
         setLoadingProgress(100)
         setLoadingMessage('Complete!')
         setTracks(normalizedTracks)
+        catalogLoaded.current = true
         setError(null)
       } catch (err) {
+        if (cancelled) return
         console.error('Error loading tracks:', err)
         setLoadingMessage('Loading sample data...')
         const fallbackTracks: Track[] = FALLBACK_TRACKS.map(track => normalizeTrack(track))
         setTracks(fallbackTracks)
+        catalogLoaded.current = true
         setError('Using sample data because Spotify is unavailable right now.')
       } finally {
-        setTimeout(() => setIsLoading(false), 500) // Small delay to show completion
+        if (!cancelled) setTimeout(() => setIsLoading(false), 500) // Small delay to show completion
       }
     }
 
-    loadTracks()
-  }, [])
+    // A newer seed supersedes a load still waiting or in flight
+    const delayId = setTimeout(loadTracks, initial ? 0 : SEED_RELOAD_DELAY)
+    return () => {
+      cancelled = true
+      clearTimeout(delayId)
+      clearTimeout(timeoutId)
+    }
+  }, [seed])
+
+  // Mirror the seed into the URL so a reload or shared link reproduces this session
+  useEffect(() => {
+    const url = new URL(window.location.href)
+    url.searchParams.set('seed', String(seed))
+    window.history.replaceState(null, '', url)
+  }, [seed])
+
+  // Keep the engine workers' catalogs in step; each rebuilds its normalizer and index from it
+  useEffect(() => {
+    [ranker, engine, background].forEach(bridge => bridge.load(tracks, scalerKind))
+  }, [ranker, engine, background, tracks, scalerKind])
+
+  // Stop the engine workers on unmount (a bridge starts a new one if used again)
+  useEffect(() => () => [ranker, engine, background].forEach(bridge => bridge.terminate()), [ranker, engine, background])
 
   // ============================================================================
   // COMPUTED VALUES & ALGORITHM LOGIC
   // ============================================================================
+
+  /**
+   * Seeded random service; every consumer forks its own labelled stream
+   */
+  const random = useMemo(() => createRandomService(seed), [seed])
   
   /**
-   * Sort tracks based on selected feature and slider value
-   * Implements greedy algorithm: finds tracks most similar to slider position
-   * Adds randomness factor to make recommendations less predictable
-   * Returns top 15 most similar tracks
+   * Feature normalizer fitted over the loaded catalog
+   * Lets tempo (BPM) and loudness (dB) share the slider with 0-1 features
    */
-  const sortedTracks = useMemo(() => {
-    if (!selectedFeature) return tracks
-    
-    // Convert slider value (0-29) to feature value (0-1) for more realistic recommendations
-    const targetValue = sliderValue / (tracks.length - 1)
-    
-    return [...tracks]
-      .map(track => {
-        const featureValue = track[selectedFeature] as number
-        const distance = Math.abs(featureValue - targetValue)
-        
-        // Add some randomness to make recommendations less predictable
-        const randomness = Math.random() * 0.1 // Small random factor
-        const score = distance + randomness
-        
-        return { track, score, distance }
+  const normalizer = useMemo(() => createNormalizer(tracks, scalerKind), [tracks, scalerKind])
+
+  /**
+   * Slider target in normalized space
+   * The slider position is spread across the catalog's normalized range for the feature
+   */
+  const sliderTarget = useMemo(() => {
+    if (!selectedFeature || tracks.length < 2) return 0
+    const [low, high] = normalizer.domain(selectedFeature as FeatureKey)
+    return low + (sliderValue / (tracks.length - 1)) * (high - low)
+  }, [normalizer, selectedFeature, sliderValue, tracks.length])
+
+  /**
+   * Rank tracks based on selected feature and slider value
+   * Delegates to the engine's greedy mode: finds tracks most similar to slider position
+   * Adds a seeded randomness factor to make recommendations less predictable;
+   * the same seed and slider position always give the same ranking
+   * Returns a candidate pool of the most similar tracks for diversity re-ranking
+   * Runs in the engine worker against its nearest-neighbour index; a newer slider
+   * position supersedes a ranking still in flight, so stale results are dropped
+   */
+  useEffect(() => {
+    if (!selectedFeature) {
+      ranker.cancel('rank')
+      setRankedTracks([])
+      return
+    }
+
+    const feature = selectedFeature as FeatureKey
+
+    ranker.run('rank', {
+      kind: 'rank',
+      config: {
+        mode: 'greedy',
+        target: { [feature]: sliderTarget },
+        keys: [feature],
+        jitter: RANK_JITTER,
+        limit: CANDIDATE_POOL
+      },
+      seed: random.derive(`rank:${feature}:${sliderValue}`)
+    }).then(setRankedTracks).catch(reportEngineError)
+  }, [ranker, normalizer, selectedFeature, sliderTarget, sliderValue, random])
+
+  /**
+   * Min-max normalizer for diversity similarity, independent of the slider's scaler
+   * so the similarity kernel means the same thing whichever scaler is active
+   */
+  const diversityNormalizer = useMemo(() => createNormalizer(tracks, 'minmax'), [tracks])
+
+  /**
+   * Clusters over the min-max normalized feature space, found in the background worker
+   * k-means picks k by silhouette score; DBSCAN finds dense regions and leaves noise
+   */
+  useEffect(() => {
+    background.run('cluster', {
+      kind: 'cluster',
+      method: clusterMethod,
+      eps: dbscanEps,
+      seed: random.derive('kmeans')
+    }).then(setClustering).catch(reportEngineError)
+  }, [background, clusterMethod, tracks, random, dbscanEps])
+
+  // Cluster ids change meaning whenever the clustering is recomputed
+  useEffect(() => {
+    setClusterFilter(null)
+  }, [clustering])
+
+  /**
+   * Whether a track may follow the selected song under the stay/jump cluster rule
+   */
+  const inScope = useCallback(
+    (track: Track) => !selectedSong || track.id === selectedSong.id || inClusterScope(track, selectedSong, clustering, clusterScope),
+    [selectedSong, clustering, clusterScope]
+  )
+
+  // Popular head vs. long tail of the catalog
+  const popularitySplit = useMemo(() => splitHeadTail(tracks, headShare), [tracks, headShare])
+
+  /**
+   * Re-rank any algorithm's output: popularity debiasing first, then the
+   * selected diversity method
+   * @param ranked - Candidate pool from an algorithm, best first
+   */
+  const applyReranking = useCallback(
+    (ranked: RankedTrack[]) => diversify(
+      debiasPopularity(ranked, { split: popularitySplit, ipw, boost: tailBoost }),
+      {
+        method: diversityMethod,
+        lambda: diversityLambda,
+        limit: LIST_SIZE,
+        normalizer: diversityNormalizer
+      }
+    ),
+    [popularitySplit, ipw, tailBoost, diversityMethod, diversityLambda, diversityNormalizer]
+  )
+
+  // Show the top 15 tracks in the filtered cluster and genre after re-ranking
+  // Explanations are refreshed so ranks and margins match the final order
+  const displayedTracks = useMemo(
+    () => explainRanking(applyReranking(rankedTracks.filter(item =>
+      (clusterFilter === null || clustering.assignments.get(item.track.id) === clusterFilter) &&
+      (genreFilter === null || item.track.genre === genreFilter)))),
+    [applyReranking, rankedTracks, clusterFilter, clustering, genreFilter]
+  )
+
+  /**
+   * Counterfactual for the probed track: where it ranks on the slider's feature,
+   * with the slider ranking's own jitter, the smallest target move that would
+   * make it the top pick, and which feature weight would
+   * The other perceptual features join at weight 0, aimed at the current song,
+   * so they don't change the ranking but can be weighed in
+   * Probed in the engine worker against the same normalizer as the slider ranking
+   */
+  useEffect(() => {
+    if (!whyNotId || !selectedFeature || !tracks.some(track => track.id === whyNotId)) {
+      engine.cancel('why-not')
+      setWhyNot(null)
+      return
+    }
+    const feature = selectedFeature as FeatureKey
+    const keys = [feature, ...PERCEPTUAL_KEYS.filter(key => key !== feature)]
+    const target: Partial<Pick<Track, FeatureKey>> = { [feature]: sliderTarget }
+    const weights: Partial<Record<FeatureKey, number>> = { [feature]: 1 }
+    if (selectedSong) {
+      keys.slice(1).forEach(key => {
+        target[key] = normalizer.normalize(key, selectedSong[key])
+        weights[key] = 0
       })
-      .sort((a, b) => a.score - b.score)
-      .slice(0, 15) // Show top 15 most similar tracks instead of all
-      .map(item => item.track)
-  }, [tracks, selectedFeature, sliderValue])
+    }
+    engine.run('why-not', {
+      kind: 'why-not',
+      trackId: whyNotId,
+      options: { target, keys, weights },
+      jitter: RANK_JITTER,
+      seed: random.derive(`rank:${feature}:${sliderValue}`) // Same stream as the slider ranking
+    }).then(setWhyNot).catch(reportEngineError)
+  }, [engine, tracks, normalizer, whyNotId, selectedFeature, selectedSong, sliderTarget, sliderValue, random])
+
+  const sortedTracks = useMemo(
+    () => selectedFeature ? displayedTracks.map(item => item.track) : tracks,
+    [displayedTracks, selectedFeature, tracks]
+  )
+
+  /**
+   * Intra-list diversity of the shown list vs. the raw top 15
+   */
+  const listDiversity = useMemo(() => ({
+    shown: intraListDiversity(sortedTracks.slice(0, LIST_SIZE), FEATURE_KEYS, diversityNormalizer),
+    baseline: intraListDiversity(rankedTracks.slice(0, LIST_SIZE).map(item => item.track), FEATURE_KEYS, diversityNormalizer)
+  }), [sortedTracks, rankedTracks, diversityNormalizer])
+
+  /**
+   * Popularity distribution of the catalog, the raw top 15 and the shown list
+   */
+  const popularityShift = useMemo(() => {
+    const tailShare = (list: Track[]) =>
+      list.length === 0 ? 0 : list.filter(track => !popularitySplit.headIds.has(track.id)).length / list.length
+    const raw = rankedTracks.slice(0, LIST_SIZE).map(item => item.track)
+    const shown = sortedTracks.slice(0, LIST_SIZE)
+    return [
+      { label: 'Catalog', color: 'rgba(255, 255, 255, 0.2)', histogram: popularityHistogram(tracks), tailShare: tailShare(tracks) },
+      { label: 'Raw top 15', color: 'rgba(224, 205, 169, 0.4)', histogram: popularityHistogram(raw), tailShare: tailShare(raw) },
+      { label: 'Shown list', color: '#E0CDA9', histogram: popularityHistogram(shown), tailShare: tailShare(shown) }
+    ]
+  }, [tracks, rankedTracks, sortedTracks, popularitySplit])
+
+  /**
+   * Synthetic listener population for collaborative filtering
+   * Regenerated (deterministically) whenever the catalog or seed changes
+   */
+  const listeners = useMemo(
+    () => generateListenerPopulation(tracks, { seed: random.derive('population'), size: POPULATION_SIZE }),
+    [tracks, random]
+  )
+
+  /**
+   * Collaborative filtering recommendations for the selected song
+   * Only computed while the collaborative algorithm is active, in the engine worker
+   */
+  useEffect(() => {
+    if (selectedAlgorithm !== 'collaborative' || !selectedSong) {
+      engine.cancel('collaborative')
+      setCollaborativeResult(null)
+      return
+    }
+    engine.run('collaborative', {
+      kind: 'collaborative',
+      seedId: selectedSong.id,
+      listeners,
+      options: { limit: CANDIDATE_POOL }
+    }).then(setCollaborativeResult).catch(reportEngineError)
+  }, [engine, selectedAlgorithm, selectedSong, listeners, tracks])
+
+  /**
+   * Content-based recommendations for the selected song
+   * Compares the full audio feature vector rather than the slider feature
+   * Ranked in the engine worker
+   */
+  useEffect(() => {
+    if (selectedAlgorithm !== 'content' || !selectedSong) {
+      engine.cancel('content')
+      setContentRecommendations(null)
+      return
+    }
+    engine.run('content', {
+      kind: 'content',
+      seedId: selectedSong.id,
+      options: { limit: CANDIDATE_POOL, genreWeight }
+    }).then(setContentRecommendations).catch(reportEngineError)
+  }, [engine, selectedAlgorithm, selectedSong, tracks, genreWeight])
+
+  /**
+   * Matrix factorization on the interaction log: the synthetic listeners' plays
+   * plus your own plays, skips and likes, retrained in the worker as you click
+   */
+  const populationLog = useMemo(() => interactionsFromListeners(listeners), [listeners])
+
+  // Until you've clicked a card, the selected song stands in for your history
+  const coldStartId = interactions.length === 0 ? selectedSong?.id ?? null : null
+
+  useEffect(() => {
+    if (selectedAlgorithm !== 'factorization') {
+      background.cancel('factorize')
+      setFactorModel(null)
+      return
+    }
+    const yours: Interaction[] = coldStartId ? [{ userId: ACTIVE_USER, trackId: coldStartId, kind: 'play' }] : interactions
+    background.run('factorize', {
+      kind: 'factorize',
+      interactions: [...populationLog, ...yours],
+      options: { method: factorMethod },
+      seed: random.derive(`factorize:${factorMethod}`)
+    }).then(setFactorModel).catch(reportEngineError)
+  }, [background, selectedAlgorithm, populationLog, interactions, coldStartId, factorMethod, random])
+
+  // Scored against the trained model in the engine worker
+  useEffect(() => {
+    if (selectedAlgorithm !== 'factorization' || !selectedSong || !factorModel) {
+      engine.cancel('factorized')
+      setFactorRecommendations(null)
+      return
+    }
+    // Tracks you've already played, skipped or liked aren't recommended back
+    const exclude = [...new Set([selectedSong.id, ...interactions.map(item => item.trackId)])]
+    engine.run('factorized', {
+      kind: 'factorized',
+      model: factorModel,
+      userId: ACTIVE_USER,
+      options: { limit: CANDIDATE_POOL, exclude }
+    }).then(setFactorRecommendations).catch(reportEngineError)
+  }, [engine, selectedAlgorithm, selectedSong, factorModel, tracks, interactions])
+
+  /**
+   * Random walk with restart from the selected song across the track-similarity
+   * graph. The engine worker builds the graph beside its feature index the
+   * first time the graph algorithm asks for it, and keeps it for the catalog
+   */
+  useEffect(() => {
+    if (selectedAlgorithm !== 'graph' || !selectedSong) {
+      engine.cancel('graph')
+      setGraphWalk(null)
+      return
+    }
+    engine.run('graph', {
+      kind: 'graph',
+      seedId: selectedSong.id,
+      walk: { restart: restartProbability, walkLength, limit: CANDIDATE_POOL }
+    }).then(setGraphWalk).catch(reportEngineError)
+  }, [engine, selectedAlgorithm, selectedSong, tracks, restartProbability, walkLength])
+
+  const graphResult = graphWalk?.result ?? null
+
+  // How each latent dimension lines up with each audio feature
+  const factorFeatureCorrelations = useMemo(
+    () => factorModel ? factorCorrelations(factorModel, tracks, PERCEPTUAL_KEYS) : [],
+    [factorModel, tracks]
+  )
+
+  /**
+   * Harmonic mixing recommendations for the selected song, plus the nearest
+   * tracks by raw feature proximity to show what the key rule changes
+   * Both ranked in the engine worker
+   */
+  useEffect(() => {
+    if (selectedAlgorithm !== 'harmonic' || !selectedSong) {
+      engine.cancel('harmonic')
+      engine.cancel('proximity')
+      setHarmonicRecommendations(null)
+      setProximityRecommendations(null)
+      return
+    }
+    engine.run('harmonic', {
+      kind: 'harmonic',
+      seedId: selectedSong.id,
+      options: { limit: CANDIDATE_POOL }
+    }).then(setHarmonicRecommendations).catch(reportEngineError)
+    engine.run('proximity', {
+      kind: 'content',
+      seedId: selectedSong.id,
+      options: { limit: 5 }
+    }).then(setProximityRecommendations).catch(reportEngineError)
+  }, [engine, selectedAlgorithm, selectedSong, tracks])
+
+  /**
+   * Greedy playlist starting from the selected song
+   * Each hop goes to the nearest unvisited track on the selected feature,
+   * plus tempo-transition cost when tempo-aware;
+   * drift is measured across every audio feature to show how far the sound wanders
+   * Walked in the engine worker with the active scaler
+   */
+  useEffect(() => {
+    if (!selectedSong || !selectedFeature) {
+      engine.cancel('greedy-playlist')
+      setGreedyPlaylist(null)
+      return
+    }
+    engine.run('greedy-playlist', {
+      kind: 'greedy-playlist',
+      trackIds: tracks.filter(inScope).map(track => track.id),
+      startId: selectedSong.id,
+      options: {
+        keys: [selectedFeature as FeatureKey],
+        driftKeys: FEATURE_KEYS,
+        length: playlistLength,
+        tempo: tempoAware ? { tolerance: pitchTolerance } : undefined
+      }
+    }).then(setGreedyPlaylist).catch(reportEngineError)
+  }, [engine, tracks, inScope, selectedSong, selectedFeature, normalizer, playlistLength, tempoAware, pitchTolerance])
+
+  /**
+   * Lowest-cost ordering of the greedy playlist's tracks from the same start
+   * Exact dynamic programming for short playlists, 2-opt/Or-opt local search beyond
+   * Solved in the engine worker with the same normalizer as the greedy playlist
+   */
+  useEffect(() => {
+    if (!greedyPlaylist || !selectedFeature) {
+      engine.cancel('optimize')
+      setOptimalPlaylist(null)
+      return
+    }
+    engine.run('optimize', {
+      kind: 'optimize',
+      trackIds: greedyPlaylist.steps.map(step => step.track.id),
+      options: {
+        keys: [selectedFeature as FeatureKey],
+        driftKeys: FEATURE_KEYS,
+        tempo: tempoAware ? { tolerance: pitchTolerance } : undefined
+      }
+    }).then(setOptimalPlaylist).catch(reportEngineError)
+  }, [engine, greedyPlaylist, selectedFeature, tempoAware, pitchTolerance])
+
+  /**
+   * Playlist fitted to the drawn target curve on the selected feature
+   * Uses min-max values so the curve's 0-1 height reads the same under any scaler
+   * Fitted in the engine worker
+   */
+  const arcTargets = useMemo(() => interpolateCurve(arcPoints, playlistLength), [arcPoints, playlistLength])
+
+  useEffect(() => {
+    if (selectedAlgorithm !== 'greedy' || !selectedFeature) {
+      engine.cancel('arc')
+      setArcFit(null)
+      return
+    }
+    engine.run('arc', {
+      kind: 'arc',
+      options: { key: selectedFeature as FeatureKey, targets: arcTargets }
+    }).then(setArcFit).catch(reportEngineError)
+  }, [engine, selectedAlgorithm, selectedFeature, tracks, arcTargets])
+
+  // Greedy next track: the first hop of the greedy playlist
+  const greedyNext = greedyPlaylist?.steps[1]?.track ?? null
+
+  /**
+   * Shared config for comparing lookahead with greedy on the slider's feature and target
+   */
+  const searchConfig = useMemo((): AlgorithmConfig | null => {
+    if (!selectedSong || !selectedFeature) return null
+    const feature = selectedFeature as FeatureKey
+    return {
+      mode: 'search',
+      from: selectedSong,
+      target: { [feature]: sliderTarget },
+      keys: [feature],
+      normalizer,
+      beamWidth,
+      depth: searchDepth
+    }
+  }, [selectedSong, selectedFeature, sliderTarget, normalizer, beamWidth, searchDepth])
+
+  /**
+   * Beam search recommendations: each next track scored by its best lookahead sequence
+   * Ranked in the engine worker; each result carries its planned sequence
+   */
+  useEffect(() => {
+    if (selectedAlgorithm !== 'search' || !searchConfig) {
+      engine.cancel('search')
+      setSearchRecommendations(null)
+      return
+    }
+    engine.run('search', {
+      kind: 'rank',
+      config: {
+        mode: 'search',
+        from: searchConfig.from,
+        target: searchConfig.target,
+        keys: searchConfig.keys,
+        beamWidth: searchConfig.beamWidth,
+        depth: searchConfig.depth,
+        shortlist: CANDIDATE_POOL,
+        limit: CANDIDATE_POOL
+      }
+    }).then(setSearchRecommendations).catch(reportEngineError)
+  }, [engine, selectedAlgorithm, searchConfig, tracks])
+
+  /**
+   * Planned sequence behind the beam search pick, and the greedy step-by-step
+   * sequence of the same length under the same cost
+   * A one-wide beam is a single pass per step, cheap enough for the main thread
+   */
+  const lookaheadComparison = useMemo(() => {
+    if (!searchConfig || !searchRecommendations) return null
+    return {
+      planned: searchRecommendations[0]?.lookahead ?? null,
+      greedy: beamSearch(tracks, { ...searchConfig, beamWidth: 1 }).best
+    }
+  }, [searchConfig, searchRecommendations, tracks])
+
+  /**
+   * Recommendations seeded from the selected song by the active algorithm,
+   * within the cluster rule, after popularity and diversity re-ranking
+   * Null for greedy, which walks its playlist instead
+   */
+  const seedRecommendations = useMemo(() => {
+    const raw = searchRecommendations ?? collaborativeResult?.recommendations ?? contentRecommendations ?? harmonicRecommendations ?? factorRecommendations ?? graphResult?.recommendations
+    return raw ? explainRanking(applyReranking(raw.filter(item => inScope(item.track)))) : null
+  }, [searchRecommendations, collaborativeResult, contentRecommendations, harmonicRecommendations, factorRecommendations, graphResult, inScope, applyReranking])
+
+  /**
+   * Greedy's first hop as a ranking: every candidate by its distance from the
+   * selected song on the slider's feature, so the pick can be explained
+   * Ranked in the engine worker
+   */
+  useEffect(() => {
+    if (selectedAlgorithm !== 'greedy' || !selectedSong || !selectedFeature) {
+      engine.cancel('greedy-next')
+      setGreedyNextRanking(null)
+      return
+    }
+    const feature = selectedFeature as FeatureKey
+    engine.run('greedy-next', {
+      kind: 'rank',
+      config: {
+        mode: 'greedy',
+        target: { [feature]: normalizer.normalize(feature, selectedSong[feature]) },
+        keys: [feature],
+        limit: CANDIDATE_POOL
+      },
+      trackIds: tracks.filter(track => track.id !== selectedSong.id && inScope(track)).map(track => track.id)
+    }).then(setGreedyNextRanking).catch(reportEngineError)
+  }, [engine, selectedAlgorithm, selectedSong, selectedFeature, tracks, inScope, normalizer])
+
+  /**
+   * "Why this?" breakdowns for the selected song and the algorithm's next pick
+   */
+  const explainedPicks = useMemo(() => {
+    if (!selectedSong) return []
+    const feature = selectedFeature ?? 'feature'
+    const SCORING: Record<string, string> = {
+      greedy: `Hop distance from the current song on ${feature}${tempoAware ? '; the walk also adds tempo cost, not shown here' : ''}`,
+      search: 'Cost of the cheapest lookahead sequence that starts with this track',
+      collaborative: '1 − its predicted plays among similar listeners, relative to the top pick — not an audio feature distance',
+      content: `Cosine distance from the current song over every audio feature${genreWeight > 0 ? `, plus ${genreWeight.toFixed(2)} outside its genre` : ''}`,
+      harmonic: 'Camelot wheel steps from the current song plus feature proximity',
+      factorization: 'Gap to the best dot product of your latent factors with the track\'s, scaled 0–1 — learned from plays, skips and likes, not audio features',
+      graph: `1 − its share of walk visits from the current song, relative to the top pick (restart ${restartProbability.toFixed(2)}, ${walkLength} steps) — not a feature distance`
+    }
+    const nextRanking = seedRecommendations ?? greedyNextRanking ?? []
+    return [
+      {
+        label: 'Current Selection',
+        ranked: displayedTracks.find(item => item.track.id === selectedSong.id) ?? null,
+        poolSize: displayedTracks.length,
+        scoring: `Distance from the slider target on ${feature}`,
+        note: 'Picked from the track list directly, not from the current slider ranking.'
+      },
+      {
+        label: 'Algorithmic Next',
+        ranked: nextSong ? nextRanking.find(item => item.track.id === nextSong.id) ?? null : null,
+        poolSize: nextRanking.length,
+        scoring: SCORING[selectedAlgorithm] ?? '',
+        note: selectedAlgorithm === 'bandit'
+          ? `Chosen by the ${banditPolicy} bandit from likes and skips, not by a ranking — see Explore vs. Exploit below.`
+          : 'No next track yet.'
+      }
+    ]
+  }, [selectedSong, selectedFeature, tempoAware, genreWeight, seedRecommendations, greedyNextRanking, displayedTracks, nextSong, selectedAlgorithm, banditPolicy, restartProbability, walkLength])
+
+  /**
+   * Playlist from the selected song under the playlist rules, on top of the
+   * active algorithm: its ranking from the selected song comes first, then
+   * every other track by hop distance from the current one
+   * Filled in the engine worker with the same normalizer as the greedy playlist
+   */
+  useEffect(() => {
+    if (!selectedSong || !selectedFeature) {
+      engine.cancel('constrain')
+      setConstrainedPlaylist(null)
+      return
+    }
+    engine.run('constrain', {
+      kind: 'constrain',
+      trackIds: tracks.filter(inScope).map(track => track.id),
+      startId: selectedSong.id,
+      constraints: playlistRules,
+      preferenceIds: (seedRecommendations ?? []).map(item => item.track.id),
+      options: {
+        keys: [selectedFeature as FeatureKey],
+        driftKeys: FEATURE_KEYS,
+        tempo: tempoAware ? { tolerance: pitchTolerance } : undefined
+      }
+    }).then(setConstrainedPlaylist).catch(reportEngineError)
+  }, [engine, selectedSong, selectedFeature, normalizer, tempoAware, pitchTolerance, seedRecommendations, tracks, inScope, playlistRules])
+
+  /**
+   * Tracks the bandit can play next: everything but the selected song
+   */
+  const banditTracks = useMemo(() => {
+    if (selectedAlgorithm !== 'bandit' || !selectedSong) return []
+    return tracks.filter(track => track.id !== selectedSong.id && inScope(track))
+  }, [selectedAlgorithm, selectedSong, tracks, inScope])
+
+  // Start a fresh feedback session whenever the arms or policy change
+  useEffect(() => {
+    setBanditSession(createBandit(banditTracks))
+  }, [banditTracks, banditPolicy])
+
+  /**
+   * The policy's next pick in your session
+   * Each round forks its own stream so the same seed and feedback replay identically
+   */
+  const banditChoice = useMemo(
+    () => selectArm(banditSession, banditPolicy, random.fork(`bandit:${banditPolicy}:${banditSession.history.length}`), { epsilon }),
+    [banditSession, banditPolicy, random, epsilon]
+  )
+
+  /**
+   * Simulated listener drawn from the synthetic population, and every policy
+   * run against them for the same number of rounds in the background worker
+   */
+  useEffect(() => {
+    if (banditTracks.length === 0 || listeners.length === 0) {
+      background.cancel('bandit-simulation')
+      setBanditSimulation(null)
+      return
+    }
+    background.run('bandit-simulation', {
+      kind: 'bandit-simulation',
+      trackIds: banditTracks.map(track => track.id),
+      listener: listeners[random.derive('bandit-listener') % listeners.length],
+      rounds: BANDIT_ROUNDS,
+      epsilon,
+      seeds: {
+        'epsilon-greedy': random.derive('bandit-simulation:epsilon-greedy'),
+        ucb1: random.derive('bandit-simulation:ucb1'),
+        thompson: random.derive('bandit-simulation:thompson')
+      }
+    }).then(setBanditSimulation).catch(reportEngineError)
+  }, [background, banditTracks, listeners, random, epsilon])
 
   // ============================================================================
   // EVENT HANDLERS
   // ============================================================================
   
+  // A finished simulation no longer matches once its starting point changes
+  useEffect(() => {
+    background.cancel('feedback-loop')
+    setLoopProgress(null)
+    setFeedbackLoop(null)
+  }, [background, selectedAlgorithm, selectedSong, tracks, seed])
+
+  // Record one of your interactions for the matrix factorization model
+  const logInteraction = (trackId: string, kind: InteractionKind) => {
+    setInteractions(log => [...log, { userId: ACTIVE_USER, trackId, kind }])
+  }
+
+  /**
+   * Run the feedback loop simulation with the active algorithm in the engine worker
+   * Each round's list goes through the same popularity and diversity re-ranking as the UI
+   */
+  const handleRunFeedbackLoop = () => {
+    if (!selectedSong) return
+    background.cancel('feedback-loop')
+    setLoopProgress(0)
+    background.run('feedback-loop', {
+      kind: 'feedback-loop',
+      algorithm: selectedAlgorithm,
+      startId: selectedSong.id,
+      rounds: loopRounds,
+      acceptance: acceptanceModel,
+      seed: random.derive(`feedback-loop:${selectedAlgorithm}:${acceptanceModel}`),
+      candidates: CANDIDATE_POOL,
+      beamWidth,
+      depth: searchDepth,
+      listeners: selectedAlgorithm === 'collaborative' ? listeners : [],
+      walk: { restart: restartProbability, walkLength },
+      rerank: {
+        ipw,
+        boost: tailBoost,
+        headShare,
+        method: diversityMethod,
+        lambda: diversityLambda,
+        limit: LIST_SIZE
+      }
+    }, done => setLoopProgress(done / loopRounds))
+      .then(result => {
+        setFeedbackLoop(result)
+        setLoopProgress(null)
+      })
+      .catch(error => {
+        if (isCancelled(error)) return
+        setLoopProgress(null)
+        reportEngineError(error)
+      })
+  }
+
+  // Stop a running feedback loop simulation
+  const handleCancelFeedbackLoop = () => {
+    background.cancel('feedback-loop')
+    setLoopProgress(null)
+  }
+
   /**
    * Handle slider value change
    * Updates slider position and selects corresponding track from sorted recommendations
@@ -251,17 +1073,14 @@ function App() {
 
   // Find next song when selected song changes
   useEffect(() => {
-    if (selectedSong && selectedFeature && sortedTracks.length > 0) {
-      const currentIndex = sortedTracks.findIndex(track => track.id === selectedSong.id)
-      if (currentIndex >= 0 && currentIndex < sortedTracks.length - 1) {
-        setNextSong(sortedTracks[currentIndex + 1])
-      } else {
-        setNextSong(null)
-      }
+    if (seedRecommendations) {
+      setNextSong(seedRecommendations[0]?.track ?? null)
+    } else if (selectedAlgorithm === 'bandit') {
+      setNextSong(banditChoice ? banditSession.arms[banditChoice.index].track : null)
     } else {
-      setNextSong(null)
+      setNextSong(greedyNext)
     }
-  }, [selectedSong, selectedFeature, sortedTracks])
+  }, [seedRecommendations, selectedAlgorithm, banditChoice, banditSession, greedyNext])
 
   // Clamp slider value when the number of tracks changes
   useEffect(() => {
@@ -296,9 +1115,39 @@ function App() {
   // RENDER HELPERS
   // ============================================================================
   
+  /**
+   * Format a raw feature value in its real units (%, BPM, dB)
+   * @param key - Feature to format
+   * @param value - Raw feature value
+   */
+  const formatFeature = (key: keyof Track, value: number) => {
+    const stat = FEATURE_STATS.find(s => s.key === key)
+    return stat ? stat.format(value) : value.toFixed(2)
+  }
+
+  /**
+   * Format a normalized value in the notation of the active scaler
+   * @param value - Normalized feature value
+   */
+  const formatNormalized = (value: number) => {
+    if (scalerKind === 'percentile') return `p${(value * 100).toFixed(0)}`
+    if (scalerKind === 'zscore') return `${value >= 0 ? '+' : ''}${value.toFixed(2)}σ`
+    return value.toFixed(2)
+  }
+
+  /**
+   * Cluster a track belongs to, by its auto-generated description
+   * @param track - Track to label
+   */
+  const renderClusterLabel = (track: Track) => {
+    const id = clustering.assignments.get(track.id) ?? NOISE
+    if (id === NOISE) return 'noise'
+    return clustering.clusters[id]?.description ?? '—'
+  }
+
   /**
    * Render feature statistics for a track
-   * Displays all audio features with formatted values
+   * Displays all audio features in real units alongside their normalized value
    * @param track - Track object to render stats for
    * @returns JSX element with feature statistics
    */
@@ -306,6 +1155,7 @@ function App() {
     <>
       {FEATURE_STATS.map((stat) => {
         const value = track[stat.key] as number
+        const normalized = normalizer.normalize(stat.key, value)
         return (
           <React.Fragment key={stat.key}>
             <div style={{
@@ -323,10 +1173,49 @@ function App() {
               fontWeight: '600'
             }}>
               {stat.format(value)}
+              <span style={{ color: 'rgba(184, 184, 184, 0.6)', fontWeight: '400', marginLeft: '6px' }}>
+                {formatNormalized(normalized)}
+              </span>
             </div>
           </React.Fragment>
         )
       })}
+      <div style={{
+        fontSize: '0.8rem',
+        color: '#B8B8B8',
+        textTransform: 'uppercase',
+        letterSpacing: '0.05em',
+        fontWeight: '500'
+      }}>
+        Camelot
+      </div>
+      <div style={{
+        fontSize: '0.8rem',
+        color: '#EAEAEA',
+        fontWeight: '600'
+      }}>
+        {formatCamelot(toCamelot(track))}
+        <span style={{ color: 'rgba(184, 184, 184, 0.6)', fontWeight: '400', marginLeft: '6px', textTransform: 'none' }}>
+          {keyName(track)}
+        </span>
+      </div>
+      <div style={{
+        fontSize: '0.8rem',
+        color: '#B8B8B8',
+        textTransform: 'uppercase',
+        letterSpacing: '0.05em',
+        fontWeight: '500'
+      }}>
+        Cluster
+      </div>
+      <div style={{
+        fontSize: '0.8rem',
+        color: '#EAEAEA',
+        fontWeight: '600',
+        textTransform: 'none'
+      }}>
+        {renderClusterLabel(track)}
+      </div>
     </>
   )
 
@@ -519,29 +1408,29 @@ function App() {
             <a 
               href="#step2" 
               style={{ 
-                color: selectedAlgorithm === 'greedy' ? 'rgba(255, 255, 255, 0.7)' : 'rgba(255, 255, 255, 0.4)', 
+                color: algorithmReady ? 'rgba(255, 255, 255, 0.7)' : 'rgba(255, 255, 255, 0.4)', 
                 textDecoration: 'none',
                 transition: 'color 0.2s ease',
                 padding: '8px 12px',
                 borderRadius: '6px',
-                cursor: selectedAlgorithm === 'greedy' ? 'pointer' : 'default'
+                cursor: algorithmReady ? 'pointer' : 'default'
               }}
               onMouseEnter={(e) => {
-                if (selectedAlgorithm === 'greedy') {
+                if (algorithmReady) {
                   e.currentTarget.style.color = '#E0CDA9'
                 }
               }}
               onMouseLeave={(e) => {
-                if (selectedAlgorithm === 'greedy') {
+                if (algorithmReady) {
                   e.currentTarget.style.color = 'rgba(255, 255, 255, 0.7)'
                 }
               }}
               onClick={(e) => {
                 e.preventDefault();
-                if (selectedAlgorithm === 'greedy') {
+                if (algorithmReady) {
                   document.querySelector('#step2')?.scrollIntoView({ behavior: 'smooth' });
                 } else {
-                  // Scroll to step1 to help user select greedy algorithm first
+                  // Scroll to step1 to help user select a working algorithm first
                   document.querySelector('#step1')?.scrollIntoView({ behavior: 'smooth' });
                 }
               }}
@@ -551,32 +1440,32 @@ function App() {
             <a 
               href="#step3" 
               style={{ 
-                color: (selectedFeature && selectedAlgorithm === 'greedy') ? 'rgba(255, 255, 255, 0.7)' : 'rgba(255, 255, 255, 0.4)', 
+                color: (selectedFeature && algorithmReady) ? 'rgba(255, 255, 255, 0.7)' : 'rgba(255, 255, 255, 0.4)', 
                 textDecoration: 'none',
                 transition: 'color 0.2s ease',
                 padding: '8px 12px',
                 borderRadius: '6px',
-                cursor: (selectedFeature && selectedAlgorithm === 'greedy') ? 'pointer' : 'default'
+                cursor: (selectedFeature && algorithmReady) ? 'pointer' : 'default'
               }}
               onMouseEnter={(e) => {
-                if (selectedFeature && selectedAlgorithm === 'greedy') {
+                if (selectedFeature && algorithmReady) {
                   e.currentTarget.style.color = '#E0CDA9'
                 }
               }}
               onMouseLeave={(e) => {
-                if (selectedFeature && selectedAlgorithm === 'greedy') {
+                if (selectedFeature && algorithmReady) {
                   e.currentTarget.style.color = 'rgba(255, 255, 255, 0.7)'
                 }
               }}
               onClick={(e) => {
                 e.preventDefault();
-                if (selectedFeature && selectedAlgorithm === 'greedy') {
+                if (selectedFeature && algorithmReady) {
                   document.querySelector('#step3')?.scrollIntoView({ behavior: 'smooth' });
-                } else if (selectedAlgorithm === 'greedy') {
+                } else if (algorithmReady) {
                   // Scroll to step2 to help user select a feature first
                   document.querySelector('#step2')?.scrollIntoView({ behavior: 'smooth' });
                 } else {
-                  // Scroll to step1 to help user select greedy algorithm first
+                  // Scroll to step1 to help user select a working algorithm first
                   document.querySelector('#step1')?.scrollIntoView({ behavior: 'smooth' });
                 }
               }}
@@ -607,14 +1496,14 @@ function App() {
                 e.preventDefault();
                 if (selectedSong) {
                   document.querySelector('#step4')?.scrollIntoView({ behavior: 'smooth' });
-                } else if (selectedFeature && selectedAlgorithm === 'greedy') {
+                } else if (selectedFeature && algorithmReady) {
                   // Scroll to step3 to help user select a song first
                   document.querySelector('#step3')?.scrollIntoView({ behavior: 'smooth' });
-                } else if (selectedAlgorithm === 'greedy') {
+                } else if (algorithmReady) {
                   // Scroll to step2 to help user select a feature first
                   document.querySelector('#step2')?.scrollIntoView({ behavior: 'smooth' });
                 } else {
-                  // Scroll to step1 to help user select greedy algorithm first
+                  // Scroll to step1 to help user select a working algorithm first
                   document.querySelector('#step1')?.scrollIntoView({ behavior: 'smooth' });
                 }
               }}
@@ -700,16 +1589,16 @@ function App() {
               <a 
                 href="#step2" 
                 style={{ 
-                  color: selectedAlgorithm === 'greedy' ? 'rgba(255, 255, 255, 0.7)' : 'rgba(255, 255, 255, 0.4)', 
+                  color: algorithmReady ? 'rgba(255, 255, 255, 0.7)' : 'rgba(255, 255, 255, 0.4)', 
                   textDecoration: 'none',
                   padding: '12px 16px',
                   borderRadius: '8px',
                   transition: 'all 0.2s ease',
-                  cursor: selectedAlgorithm === 'greedy' ? 'pointer' : 'default'
+                  cursor: algorithmReady ? 'pointer' : 'default'
                 }}
                 onClick={(e) => {
                   e.preventDefault();
-                  if (selectedAlgorithm === 'greedy') {
+                  if (algorithmReady) {
                     document.querySelector('#step2')?.scrollIntoView({ behavior: 'smooth' });
                   } else {
                     document.querySelector('#step1')?.scrollIntoView({ behavior: 'smooth' });
@@ -722,18 +1611,18 @@ function App() {
               <a 
                 href="#step3" 
                 style={{ 
-                  color: (selectedFeature && selectedAlgorithm === 'greedy') ? 'rgba(255, 255, 255, 0.7)' : 'rgba(255, 255, 255, 0.4)', 
+                  color: (selectedFeature && algorithmReady) ? 'rgba(255, 255, 255, 0.7)' : 'rgba(255, 255, 255, 0.4)', 
                   textDecoration: 'none',
                   padding: '12px 16px',
                   borderRadius: '8px',
                   transition: 'all 0.2s ease',
-                  cursor: (selectedFeature && selectedAlgorithm === 'greedy') ? 'pointer' : 'default'
+                  cursor: (selectedFeature && algorithmReady) ? 'pointer' : 'default'
                 }}
                 onClick={(e) => {
                   e.preventDefault();
-                  if (selectedFeature && selectedAlgorithm === 'greedy') {
+                  if (selectedFeature && algorithmReady) {
                     document.querySelector('#step3')?.scrollIntoView({ behavior: 'smooth' });
-                  } else if (selectedAlgorithm === 'greedy') {
+                  } else if (algorithmReady) {
                     document.querySelector('#step2')?.scrollIntoView({ behavior: 'smooth' });
                   } else {
                     document.querySelector('#step1')?.scrollIntoView({ behavior: 'smooth' });
@@ -757,9 +1646,9 @@ function App() {
                   e.preventDefault();
                   if (selectedSong) {
                     document.querySelector('#step4')?.scrollIntoView({ behavior: 'smooth' });
-                  } else if (selectedFeature && selectedAlgorithm === 'greedy') {
+                  } else if (selectedFeature && algorithmReady) {
                     document.querySelector('#step3')?.scrollIntoView({ behavior: 'smooth' });
-                  } else if (selectedAlgorithm === 'greedy') {
+                  } else if (algorithmReady) {
                     document.querySelector('#step2')?.scrollIntoView({ behavior: 'smooth' });
                   } else {
                     document.querySelector('#step1')?.scrollIntoView({ behavior: 'smooth' });
@@ -972,11 +1861,11 @@ function App() {
                 options={ALGORITHMS.map(algorithm => ({
                   id: algorithm.id,
                   name: algorithm.name,
-                  disabled: algorithm.id !== 'greedy'
+                  disabled: !algorithm.implemented
                 }))}
                 value={selectedAlgorithm}
                 onChange={(value) => {
-                  if (value === 'greedy') {
+                  if (ALGORITHMS.find(a => a.id === value)?.implemented) {
                     setSelectedAlgorithm(value)
                   }
                 }}
@@ -1105,8 +1994,8 @@ function App() {
               </div>
             </div>
             
-            {/* Coming Soon Message for Non-Greedy Algorithms */}
-            {selectedAlgorithm !== 'greedy' && (
+            {/* Coming Soon Message for Unimplemented Algorithms */}
+            {!algorithmReady && (
               <div style={{
                 maxWidth: window.innerWidth < 768 ? '90vw' : '600px',
                 margin: '24px auto 0 auto',
@@ -1136,10 +2025,7 @@ function App() {
                   margin: 0,
                   fontStyle: 'italic'
                 }}>
-                  {selectedAlgorithm === 'collaborative' 
-                    ? 'Collaborative filtering requires user behavior data and would need a completely different interface focused on user similarity rather than musical features.'
-                    : 'Content-based filtering would need a multi-dimensional interface to handle multiple features simultaneously, which requires a different interaction model.'
-                  }
+                  This algorithm isn't wired into the recommendation engine yet.
                 </p>
               </div>
             )}
@@ -1183,7 +2069,7 @@ function App() {
         </section>
 
         {/* Step 2: Select Musical Dimension */}
-        {selectedAlgorithm === 'greedy' && (
+        {algorithmReady && (
         <section id="step2" style={{ 
           padding: '80px 0',
           textAlign: 'center',
@@ -1503,6 +2389,111 @@ function App() {
               </p>
             </div>
             
+            {/* Normalization Selector */}
+            <div style={{
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              gap: '12px',
+              marginTop: '32px'
+            }}>
+              <div style={{
+                fontSize: '14px',
+                color: '#B8B8B8',
+                fontWeight: '500'
+              }}>
+                Normalization:
+              </div>
+              <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', justifyContent: 'center' }}>
+                {SCALERS.map(scaler => (
+                  <button
+                    key={scaler.id}
+                    onClick={() => setScalerKind(scaler.id)}
+                    title={scaler.description}
+                    style={{
+                      padding: '8px 16px',
+                      borderRadius: '999px',
+                      border: scalerKind === scaler.id ? '1px solid #E0CDA9' : '1px solid rgba(255, 255, 255, 0.15)',
+                      background: scalerKind === scaler.id ? 'rgba(224, 205, 169, 0.1)' : 'rgba(255, 255, 255, 0.03)',
+                      color: scalerKind === scaler.id ? '#E0CDA9' : 'rgba(255, 255, 255, 0.7)',
+                      fontSize: '13px',
+                      fontFamily: 'Fira Code, monospace',
+                      cursor: 'pointer',
+                      transition: 'all 0.2s ease'
+                    }}
+                  >
+                    {scaler.label}
+                  </button>
+                ))}
+              </div>
+              <div style={{
+                fontSize: '12px',
+                color: 'rgba(184, 184, 184, 0.6)',
+                fontFamily: 'Fira Code, monospace'
+              }}>
+                {SCALERS.find(scaler => scaler.id === scalerKind)?.description}
+              </div>
+
+              {/* Seed Control */}
+              <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                marginTop: '8px',
+                fontSize: '13px',
+                color: '#B8B8B8',
+                fontFamily: 'Fira Code, monospace'
+              }}>
+                <label htmlFor="seed-input">Seed:</label>
+                <input
+                  id="seed-input"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={seed}
+                  onChange={(e) => {
+                    const value = Number(e.target.value)
+                    if (e.target.value.trim() && Number.isInteger(value) && value >= 0) setSeed(value)
+                  }}
+                  style={{
+                    width: '110px',
+                    padding: '6px 10px',
+                    borderRadius: '8px',
+                    border: '1px solid rgba(255, 255, 255, 0.15)',
+                    background: 'rgba(255, 255, 255, 0.05)',
+                    color: '#E0CDA9',
+                    fontFamily: 'Fira Code, monospace',
+                    fontSize: '13px',
+                    outline: 'none'
+                  }}
+                />
+                <button
+                  onClick={() => setSeed(random.derive('next-seed') % 1000000)}
+                  title="Step to the next seed"
+                  style={{
+                    padding: '6px 10px',
+                    borderRadius: '8px',
+                    border: '1px solid rgba(255, 255, 255, 0.15)',
+                    background: 'rgba(255, 255, 255, 0.03)',
+                    color: 'rgba(255, 255, 255, 0.7)',
+                    cursor: 'pointer',
+                    fontFamily: 'Fira Code, monospace',
+                    fontSize: '13px'
+                  }}
+                >
+                  ↻
+                </button>
+              </div>
+              <div style={{
+                fontSize: '12px',
+                color: 'rgba(184, 184, 184, 0.6)',
+                fontFamily: 'Fira Code, monospace',
+                maxWidth: '480px'
+              }}>
+                Same seed, same catalog features, rankings and listeners.
+              </div>
+            </div>
+
             <div style={{
               padding: '48px 0',
               maxWidth: '800px',
@@ -1520,7 +2511,10 @@ function App() {
               }}>
                 <span>{selectedFeature}:</span>
                 <span style={{ color: '#E0CDA9' }}>
-                  {selectedSong ? (selectedSong[selectedFeature] as number).toFixed(2) : '0.00'}
+                  {selectedSong ? formatFeature(selectedFeature, selectedSong[selectedFeature] as number) : '—'}
+                </span>
+                <span style={{ color: 'rgba(184, 184, 184, 0.6)' }}>
+                  target {formatFeature(selectedFeature, normalizer.denormalize(selectedFeature as FeatureKey, sliderTarget))}
                 </span>
               </div>
               
@@ -1557,7 +2551,7 @@ function App() {
                   borderRadius: '4px',
                   whiteSpace: 'nowrap'
                 }}>
-                  {(sliderValue / (tracks.length - 1)).toFixed(1)}
+                  {formatNormalized(sliderTarget)}
                 </div>
               </div>
               
@@ -1580,6 +2574,52 @@ function App() {
               </div>
             </div>
 
+            {/* Diversity Re-ranking */}
+            <DiversityControls
+              method={diversityMethod}
+              lambda={diversityLambda}
+              diversity={listDiversity.shown}
+              baselineDiversity={listDiversity.baseline}
+              onMethodChange={setDiversityMethod}
+              onLambdaChange={setDiversityLambda}
+            />
+
+            {/* Popularity Debiasing */}
+            <PopularityControls
+              ipw={ipw}
+              boost={tailBoost}
+              headShare={headShare}
+              threshold={popularitySplit.threshold}
+              series={popularityShift}
+              onIpwChange={setIpw}
+              onBoostChange={setTailBoost}
+              onHeadShareChange={setHeadShare}
+            />
+
+            {/* Feature-Space Clusters */}
+            <ClusterPanel
+              clustering={clustering}
+              method={clusterMethod}
+              eps={dbscanEps}
+              filter={clusterFilter}
+              scope={clusterScope}
+              onMethodChange={setClusterMethod}
+              onEpsChange={setDbscanEps}
+              onFilterChange={setClusterFilter}
+              onScopeChange={setClusterScope}
+            />
+
+            {/* Genre Filter, Coloring and Similarity Weight */}
+            <GenreControls
+              tracks={tracks}
+              filter={genreFilter}
+              colorBy={colorByGenre}
+              weight={genreWeight}
+              onFilterChange={setGenreFilter}
+              onColorByChange={setColorByGenre}
+              onWeightChange={setGenreWeight}
+            />
+
             {/* Horizontal Track List */}
             <div style={{
               marginTop: '48px',
@@ -1600,11 +2640,15 @@ function App() {
                     onClick={() => {
                       const trackIndex = sortedTracks.findIndex(t => t.id === track.id)
                       if (trackIndex !== -1) {
-                        // Convert the track's feature value back to slider position
-                        const featureValue = track[selectedFeature as keyof Track] as number
-                        const sliderPos = Math.floor(featureValue * (tracks.length - 1))
+                        // Convert the track's normalized feature value back to slider position
+                        const feature = selectedFeature as FeatureKey
+                        const [low, high] = normalizer.domain(feature)
+                        const normalized = normalizer.normalize(feature, track[feature])
+                        const fraction = high > low ? (normalized - low) / (high - low) : 0
+                        const sliderPos = Math.round(fraction * (tracks.length - 1))
                         setSliderValue(sliderPos)
                         setSelectedSong(track)
+                        logInteraction(track.id, 'play')
                       }
                     }}
                     style={{
@@ -1617,6 +2661,7 @@ function App() {
                       background: selectedSong?.id === track.id 
                         ? 'rgba(224, 205, 169, 0.08)' 
                         : 'rgba(255, 255, 255, 0.02)',
+                      boxShadow: colorByGenre ? `inset 0 3px 0 ${GENRE_COLORS[track.genre]}` : 'none',
                       cursor: 'pointer',
                       transition: 'all 0.2s ease',
                       textAlign: 'left'
@@ -1655,17 +2700,66 @@ function App() {
                     }}>
                       {track.artist}
                     </div>
+                    <div style={{
+                      fontSize: '11px',
+                      color: colorByGenre ? GENRE_COLORS[track.genre] : 'rgba(184, 184, 184, 0.7)',
+                      fontFamily: 'Fira Code, monospace',
+                      marginBottom: '4px'
+                    }}>
+                      {track.genre}
+                    </div>
                     <div style={{
                       fontSize: '11px',
                       color: '#B8B8B8',
                       fontFamily: 'Fira Code, monospace'
                     }}>
-                      {selectedFeature}: {((track[selectedFeature] as number) * 100).toFixed(0)}%
+                      {selectedFeature}: {formatFeature(selectedFeature, track[selectedFeature] as number)}
+                    </div>
+                    <div style={{ display: 'flex', gap: '10px', marginTop: '8px' }}>
+                      {[
+                        { label: 'Like', active: interactions.some(item => item.trackId === track.id && item.kind === 'like'), onClick: () => logInteraction(track.id, 'like') },
+                        { label: 'Skip', active: interactions.some(item => item.trackId === track.id && item.kind === 'skip'), onClick: () => logInteraction(track.id, 'skip') },
+                        { label: 'Why not?', active: whyNotId === track.id, onClick: () => setWhyNotId(track.id) }
+                      ].map(action => (
+                        <button
+                          key={action.label}
+                          onClick={(e) => {
+                            e.stopPropagation() // Act without selecting the card
+                            action.onClick()
+                          }}
+                          style={{
+                            padding: 0,
+                            border: 'none',
+                            background: 'none',
+                            color: action.active ? '#E0CDA9' : 'rgba(184, 184, 184, 0.7)',
+                            fontSize: '11px',
+                            fontFamily: 'Fira Code, monospace',
+                            textDecoration: 'underline',
+                            cursor: 'pointer'
+                          }}
+                        >
+                          {action.label}
+                        </button>
+                      ))}
                     </div>
                   </div>
                 ))}
               </div>
             </div>
+
+            {/* Counterfactual: why not this track? */}
+            {selectedFeature && (
+              <CounterfactualPanel
+                tracks={tracks}
+                result={whyNot}
+                listedRank={whyNot ? displayedTracks.find(item => item.track.id === whyNot.track.id)?.rank ?? null : null}
+                keys={[selectedFeature as FeatureKey]}
+                target={{ [selectedFeature]: sliderTarget }}
+                formatValue={(key, value) => formatFeature(key, normalizer.denormalize(key, value))}
+                valueOf={(track, key) => normalizer.normalize(key, track[key])}
+                onProbeChange={setWhyNotId}
+              />
+            )}
             
           </section>
         )}
@@ -1942,7 +3036,194 @@ function App() {
             </div>
             </div>
 
+            {/* Why this? Explanations for both picks */}
+            {explainedPicks.length > 0 && <ExplanationPanel picks={explainedPicks} />}
+
+            {/* Greedy Playlist Chain vs. Optimal Ordering */}
+            {selectedAlgorithm === 'greedy' && greedyPlaylist && (
+              <>
+                <TempoControls
+                  enabled={tempoAware}
+                  tolerance={pitchTolerance}
+                  onEnabledChange={setTempoAware}
+                  onToleranceChange={setPitchTolerance}
+                />
+                <div style={{
+                  display: 'grid',
+                  gridTemplateColumns: window.innerWidth < 768 ? '1fr' : '1fr 1fr',
+                  gap: window.innerWidth < 768 ? '0' : '1.5rem',
+                  alignItems: 'start'
+                }}>
+                  <PlaylistChain
+                    playlist={greedyPlaylist}
+                    title="The Greedy Walk"
+                    hopLabel={`hops on ${selectedFeature}${tempoAware ? ' + tempo' : ''}, drift across all features`}
+                    length={playlistLength}
+                    maxLength={Math.min(20, tracks.length)}
+                    onLengthChange={setPlaylistLength}
+                  />
+                  {optimalPlaylist && (
+                    <PlaylistChain
+                      playlist={optimalPlaylist}
+                      title={optimalPlaylist.method === 'dynamic-programming' ? 'Optimal Order (Exact DP)' : 'Optimized Order (2-opt / Or-opt)'}
+                      hopLabel="same tracks, same start"
+                    />
+                  )}
+                </div>
+                {optimalPlaylist && (
+                  <CostComparisonChart
+                    series={[
+                      { label: 'Greedy', color: 'rgba(224, 205, 169, 0.5)', playlist: greedyPlaylist },
+                      { label: optimalPlaylist.method === 'dynamic-programming' ? 'Optimal' : 'Optimized', color: '#E0CDA9', playlist: optimalPlaylist }
+                    ]}
+                  />
+                )}
+              </>
+            )}
+
+            {/* Constrained Playlist */}
+            {constrainedPlaylist && selectedFeature && (
+              <>
+                <ConstraintPanel
+                  constraints={playlistRules}
+                  result={constrainedPlaylist}
+                  tracks={tracks}
+                  featureKeys={FEATURE_KEYS}
+                  domain={(key) => [diversityNormalizer.denormalize(key, 0), diversityNormalizer.denormalize(key, 1)]}
+                  formatValue={formatFeature}
+                  maxLength={Math.min(20, tracks.length)}
+                  onChange={setPlaylistRules}
+                />
+                <PlaylistChain
+                  playlist={constrainedPlaylist.playlist}
+                  title="The Constrained Playlist"
+                  hopLabel={`${selectedAlgorithm} picks under the rules, hops on ${selectedFeature}`}
+                />
+              </>
+            )}
+
+            {/* Playlist Shape Targeting */}
+            {arcFit && selectedFeature && (
+              <ArcPanel
+                fit={arcFit}
+                feature={selectedFeature}
+                points={arcPoints}
+                targets={arcTargets}
+                presets={ARC_PRESETS}
+                formatValue={(value) => formatFeature(selectedFeature, diversityNormalizer.denormalize(selectedFeature as FeatureKey, value))}
+                onPointsChange={setArcPoints}
+              />
+            )}
+
+            {/* Beam Search vs. Greedy */}
+            {lookaheadComparison && (
+              <LookaheadPanel
+                greedy={lookaheadComparison.greedy}
+                planned={lookaheadComparison.planned}
+                beamWidth={beamWidth}
+                depth={searchDepth}
+                onBeamWidthChange={setBeamWidth}
+                onDepthChange={setSearchDepth}
+              />
+            )}
 
+            {/* Bandit Exploration */}
+            {banditSimulation && (
+              <BanditPanel
+                policy={banditPolicy}
+                epsilon={epsilon}
+                source={feedbackSource}
+                simulations={banditSimulation.runs}
+                session={banditSession}
+                choice={banditChoice}
+                bestRate={banditSimulation.bestRate}
+                onPolicyChange={setBanditPolicy}
+                onEpsilonChange={setEpsilon}
+                onSourceChange={setFeedbackSource}
+                onFeedback={(reward) => {
+                  if (!banditChoice) return
+                  setBanditSession(updateBandit(banditSession, banditChoice, reward))
+                  logInteraction(banditSession.arms[banditChoice.index].track.id, reward > 0 ? 'like' : 'skip')
+                }}
+                onReset={() => setBanditSession(createBandit(banditTracks))}
+              />
+            )}
+
+            {/* Collaborative Filtering Neighbourhood */}
+            {collaborativeResult && (
+              <CollaborativePanel
+                result={collaborativeResult}
+                recommendations={seedRecommendations ?? []}
+                tracks={tracks}
+                populationSize={listeners.length}
+              />
+            )}
+
+            {/* Harmonic Mixing vs. Feature Proximity */}
+            {harmonicRecommendations && selectedSong && (
+              <HarmonicPanel
+                seed={selectedSong}
+                recommendations={seedRecommendations ?? []}
+                proximity={proximityRecommendations ?? []}
+              />
+            )}
+
+            {/* Matrix Factorization: Latent Factors vs. Audio Features */}
+            {selectedAlgorithm === 'factorization' && selectedSong && (
+              <LatentFactorsPanel
+                model={factorModel}
+                track={selectedSong}
+                keys={PERCEPTUAL_KEYS}
+                correlations={factorFeatureCorrelations}
+                featureValue={(track, key) => diversityNormalizer.normalize(key, track[key])}
+                interactionCount={populationLog.length + Math.max(1, interactions.length)}
+                yourCount={Math.max(1, interactions.length)}
+                method={factorMethod}
+                onMethodChange={setFactorMethod}
+              />
+            )}
+
+            {/* Graph Walk: Random Walk with Restart vs. the Greedy Playlist */}
+            {graphWalk && selectedSong && (
+              <GraphPanel
+                seed={selectedSong}
+                edgeCount={graphWalk.edgeCount}
+                seedEdges={graphWalk.seedEdges}
+                trackCount={tracks.length}
+                result={graphWalk.result}
+                restart={restartProbability}
+                walkLength={walkLength}
+                greedyIds={greedyPlaylist ? greedyPlaylist.steps.map(step => step.track.id) : null}
+                feature={selectedFeature}
+                onRestartChange={setRestartProbability}
+                onWalkLengthChange={setWalkLength}
+              />
+            )}
+
+            {/* Content-Based Comparison */}
+            {contentRecommendations && selectedFeature && (
+              <ContentPanel
+                recommendations={seedRecommendations ?? []}
+                greedyPick={greedyNext}
+                feature={selectedFeature}
+              />
+            )}
+
+            {/* Feedback Loop Simulation */}
+            {selectedSong && (
+              <FeedbackLoopPanel
+                result={feedbackLoop}
+                progress={loopProgress}
+                algorithmName={ALGORITHMS.find(a => a.id === selectedAlgorithm)?.name ?? selectedAlgorithm}
+                rounds={loopRounds}
+                acceptance={acceptanceModel}
+                catalogSize={tracks.length}
+                onRoundsChange={setLoopRounds}
+                onAcceptanceChange={setAcceptanceModel}
+                onRun={handleRunFeedbackLoop}
+                onCancel={handleCancelFeedbackLoop}
+              />
+            )}
             
           </section>
         )}
@@ -0,0 +1,191 @@
+import React, { useState } from 'react'
+import type { ArcFit } from '../types'
+
+interface ArcPanelProps {
+  fit: ArcFit
+  feature: string
+  points: number[]                        // Control points of the target curve, 0-1
+  targets: number[]                       // Curve sampled at every playlist position
+  presets: Array<{ id: string; label: string; points: number[] }>
+  formatValue: (normalized: number) => string // Normalized value in real units
+  onPointsChange: (points: number[]) => void
+}
+
+const CHART_WIDTH = 100
+const CHART_HEIGHT = 140
+const PADDING = 8
+
+export default function ArcPanel({
+  fit,
+  feature,
+  points,
+  targets,
+  presets,
+  formatValue,
+  onPointsChange
+}: ArcPanelProps) {
+  const [dragging, setDragging] = useState(false)
+
+  const xAt = (position: number, count: number) =>
+    count <= 1 ? CHART_WIDTH / 2 : (position / (count - 1)) * CHART_WIDTH
+  const yAt = (value: number) =>
+    PADDING + (1 - Math.min(1, Math.max(0, value))) * (CHART_HEIGHT - PADDING * 2)
+
+  // Move the control point nearest the pointer to the pointer's height
+  const drawAt = (event: React.PointerEvent<SVGSVGElement>) => {
+    const box = event.currentTarget.getBoundingClientRect()
+    const x = (event.clientX - box.left) / box.width
+    const y = (event.clientY - box.top) / box.height
+    const index = Math.round(x * (points.length - 1))
+    const value = 1 - (y * CHART_HEIGHT - PADDING) / (CHART_HEIGHT - PADDING * 2)
+    const next = [...points]
+    next[Math.min(points.length - 1, Math.max(0, index))] = Math.round(Math.min(1, Math.max(0, value)) * 100) / 100
+    onPointsChange(next)
+  }
+
+  const activePreset = presets.find(preset => preset.points.every((point, index) => point === points[index]))
+
+  return (
+    <div style={{
+      maxWidth: window.innerWidth < 768 ? '90vw' : '600px',
+      margin: '32px auto 0 auto',
+      padding: window.innerWidth < 768 ? '16px 20px' : '20px 24px',
+      borderRadius: '16px',
+      background: 'rgba(255, 255, 255, 0.02)',
+      backdropFilter: 'blur(20px)',
+      WebkitBackdropFilter: 'blur(20px)',
+      border: '1px solid rgba(255, 255, 255, 0.08)',
+      textAlign: 'center'
+    }}>
+      <h5 style={{
+        color: '#E0CDA9',
+        fontSize: '14px',
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        letterSpacing: '0.1em',
+        marginBottom: '12px',
+        fontFamily: 'Fira Code, monospace'
+      }}>
+        Playlist Shape
+      </h5>
+      <p style={{
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: '0.85rem',
+        lineHeight: '1.6',
+        margin: '0 0 16px 0'
+      }}>
+        Draw how {feature} should move across the playlist. The engine picks the sequence of tracks that follows the curve most closely.
+      </p>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '8px', marginBottom: '16px' }}>
+        {presets.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => onPointsChange(preset.points)}
+            style={{
+              padding: '6px 14px',
+              borderRadius: '999px',
+              border: activePreset?.id === preset.id ? '1px solid #E0CDA9' : '1px solid rgba(255, 255, 255, 0.15)',
+              background: activePreset?.id === preset.id ? 'rgba(224, 205, 169, 0.1)' : 'rgba(255, 255, 255, 0.03)',
+              color: activePreset?.id === preset.id ? '#E0CDA9' : 'rgba(255, 255, 255, 0.7)',
+              fontSize: '12px',
+              fontFamily: 'Fira Code, monospace',
+              cursor: 'pointer',
+              transition: 'all 0.2s ease'
+            }}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Target curve (drawable) with the achieved values on top */}
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        onPointerDown={(e) => { setDragging(true); drawAt(e) }}
+        onPointerMove={(e) => { if (dragging) drawAt(e) }}
+        onPointerUp={() => setDragging(false)}
+        onPointerLeave={() => setDragging(false)}
+        style={{
+          width: '100%',
+          height: `${CHART_HEIGHT}px`,
+          display: 'block',
+          background: 'rgba(255, 255, 255, 0.02)',
+          borderRadius: '8px',
+          cursor: 'crosshair',
+          touchAction: 'none'
+        }}
+      >
+        <polyline
+          fill="none"
+          stroke="rgba(224, 205, 169, 0.4)"
+          strokeWidth="2"
+          strokeDasharray="4 3"
+          vectorEffect="non-scaling-stroke"
+          points={targets.map((target, position) => `${xAt(position, targets.length)},${yAt(target)}`).join(' ')}
+        />
+        <polyline
+          fill="none"
+          stroke="#E0CDA9"
+          strokeWidth="2"
+          vectorEffect="non-scaling-stroke"
+          points={fit.steps.map(step => `${xAt(step.position, targets.length)},${yAt(step.value)}`).join(' ')}
+        />
+        {points.map((point, index) => (
+          <line
+            key={index}
+            x1={xAt(index, points.length)}
+            x2={xAt(index, points.length)}
+            y1={yAt(point) - 3}
+            y2={yAt(point) + 3}
+            stroke="rgba(255, 255, 255, 0.6)"
+            strokeWidth="8"
+            strokeLinecap="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+      <div style={{
+        display: 'flex',
+        justifyContent: 'center',
+        gap: '16px',
+        marginTop: '8px',
+        fontSize: '11px',
+        fontFamily: 'Fira Code, monospace',
+        color: '#B8B8B8'
+      }}>
+        <span><span style={{ color: 'rgba(224, 205, 169, 0.6)' }}>┄</span> target</span>
+        <span><span style={{ color: '#E0CDA9' }}>━</span> achieved</span>
+        <span>mean miss {fit.error.toFixed(3)}</span>
+      </div>
+
+      <ol style={{
+        listStyle: 'none',
+        padding: 0,
+        margin: '16px 0 0 0',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px'
+      }}>
+        {fit.steps.map(step => (
+          <li key={step.track.id} style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            gap: '12px',
+            fontSize: '12px',
+            color: 'rgba(255, 255, 255, 0.7)'
+          }}>
+            <span style={{ textAlign: 'left' }}>
+              {step.position + 1}. {step.track.name} — {step.track.artist}
+            </span>
+            <span style={{ color: '#E0CDA9', fontFamily: 'Fira Code, monospace', whiteSpace: 'nowrap' }}>
+              {formatValue(step.value)}
+              <span style={{ color: 'rgba(184, 184, 184, 0.6)' }}> / {formatValue(step.target)}</span>
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,253 @@
+import type { BanditChoice, BanditPolicy, BanditState, FeedbackSource } from '../types'
+
+interface BanditPanelProps {
+  policy: BanditPolicy
+  epsilon: number
+  source: FeedbackSource
+  simulations: Array<{ policy: BanditPolicy; state: BanditState }> // One run per policy, same listener
+  session: BanditState          // Your own like/skip history
+  choice: BanditChoice | null   // What the policy wants to play next in your session
+  bestRate: number              // Like probability of the simulated listener's favourite track
+  onPolicyChange: (policy: BanditPolicy) => void
+  onEpsilonChange: (epsilon: number) => void
+  onSourceChange: (source: FeedbackSource) => void
+  onFeedback: (reward: number) => void
+  onReset: () => void
+}
+
+const BANDIT_POLICIES: Array<{ id: BanditPolicy; label: string; color: string; description: string }> = [
+  { id: 'epsilon-greedy', label: 'ε-Greedy', color: 'rgba(224, 205, 169, 0.5)', description: 'Exploit the best track so far, explore at random ε of the time' },
+  { id: 'ucb1', label: 'UCB1', color: '#9DB4C0', description: 'Optimism under uncertainty: rarely played tracks get a bonus' },
+  { id: 'thompson', label: 'Thompson', color: '#E0CDA9', description: 'Sample each track\'s like rate from its posterior and play the best draw' }
+]
+
+const CHART_HEIGHT = 120
+const MAX_ARMS_SHOWN = 10
+
+const pillStyle = (active: boolean) => ({
+  padding: '6px 14px',
+  borderRadius: '999px',
+  border: active ? '1px solid #E0CDA9' : '1px solid rgba(255, 255, 255, 0.15)',
+  background: active ? 'rgba(224, 205, 169, 0.1)' : 'rgba(255, 255, 255, 0.03)',
+  color: active ? '#E0CDA9' : 'rgba(255, 255, 255, 0.7)',
+  fontSize: '12px',
+  fontFamily: 'Fira Code, monospace',
+  cursor: 'pointer',
+  transition: 'all 0.2s ease'
+})
+
+export default function BanditPanel({
+  policy,
+  epsilon,
+  source,
+  simulations,
+  session,
+  choice,
+  bestRate,
+  onPolicyChange,
+  onEpsilonChange,
+  onSourceChange,
+  onFeedback,
+  onReset
+}: BanditPanelProps) {
+  const activeState = source === 'you'
+    ? session
+    : simulations.find(run => run.policy === policy)?.state ?? session
+  const lines = source === 'you'
+    ? [{ label: 'You', color: '#E0CDA9', state: session }]
+    : simulations.map(run => ({
+        label: BANDIT_POLICIES.find(p => p.id === run.policy)?.label ?? run.policy,
+        color: BANDIT_POLICIES.find(p => p.id === run.policy)?.color ?? '#E0CDA9',
+        state: run.state
+      }))
+
+  const rounds = Math.max(1, ...lines.map(line => line.state.history.length))
+  const maxReward = Math.max(1, ...lines.map(line => line.state.history[line.state.history.length - 1]?.cumulativeReward ?? 0))
+  const chartMax = source === 'simulated' ? Math.max(maxReward, bestRate * rounds) : maxReward
+  const toPoint = (round: number, reward: number) =>
+    `${(round / rounds) * 100},${CHART_HEIGHT - (reward / chartMax) * (CHART_HEIGHT - 4)}`
+
+  const armsPlayed = activeState.arms.filter(arm => arm.pulls > 0)
+  const topArms = [...armsPlayed].sort((a, b) => b.pulls - a.pulls).slice(0, MAX_ARMS_SHOWN)
+  const maxPulls = Math.max(1, ...topArms.map(arm => arm.pulls))
+  const exploredShare = activeState.history.length === 0
+    ? 0
+    : activeState.history.filter(round => round.explored).length / activeState.history.length
+  const nextTrack = choice ? session.arms[choice.index]?.track : null
+
+  return (
+    <div style={{
+      maxWidth: window.innerWidth < 768 ? '90vw' : '600px',
+      margin: '32px auto 0 auto',
+      padding: window.innerWidth < 768 ? '16px 20px' : '20px 24px',
+      borderRadius: '16px',
+      background: 'rgba(255, 255, 255, 0.02)',
+      backdropFilter: 'blur(20px)',
+      WebkitBackdropFilter: 'blur(20px)',
+      border: '1px solid rgba(255, 255, 255, 0.08)',
+      textAlign: 'center'
+    }}>
+      <h5 style={{
+        color: '#E0CDA9',
+        fontSize: '14px',
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        letterSpacing: '0.1em',
+        marginBottom: '12px',
+        fontFamily: 'Fira Code, monospace'
+      }}>
+        Explore or Exploit
+      </h5>
+
+      {/* Policy and feedback source */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '8px', marginBottom: '12px' }}>
+        {BANDIT_POLICIES.map(option => (
+          <button
+            key={option.id}
+            onClick={() => onPolicyChange(option.id)}
+            title={option.description}
+            style={pillStyle(policy === option.id)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <div style={{ display: 'flex', justifyContent: 'center', gap: '8px', marginBottom: '12px' }}>
+        <button onClick={() => onSourceChange('simulated')} style={pillStyle(source === 'simulated')}>
+          Simulated listener
+        </button>
+        <button onClick={() => onSourceChange('you')} style={pillStyle(source === 'you')}>
+          Your feedback
+        </button>
+      </div>
+
+      {policy === 'epsilon-greedy' && (
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: '12px',
+          fontSize: '12px',
+          color: '#B8B8B8',
+          fontFamily: 'Fira Code, monospace',
+          marginBottom: '12px'
+        }}>
+          <span>ε</span>
+          <input
+            type="range"
+            min="0"
+            max="0.5"
+            step="0.01"
+            value={epsilon}
+            onChange={(e) => onEpsilonChange(Number(e.target.value))}
+            style={{ width: '160px', cursor: 'pointer' }}
+          />
+          <span style={{ color: '#E0CDA9', width: '36px' }}>{epsilon.toFixed(2)}</span>
+        </div>
+      )}
+
+      {/* Your session: like or skip the policy's pick */}
+      {source === 'you' && (
+        <div style={{ marginBottom: '16px' }}>
+          <p style={{ color: 'rgba(255, 255, 255, 0.8)', fontSize: '0.85rem', lineHeight: '1.6', margin: '0 0 12px 0' }}>
+            {nextTrack
+              ? <>Now playing <span style={{ color: '#EAEAEA' }}>{nextTrack.name}</span> — {nextTrack.artist}{choice?.explored ? ' (exploring)' : ''}</>
+              : 'No tracks to play.'}
+          </p>
+          <div style={{ display: 'flex', justifyContent: 'center', gap: '8px' }}>
+            <button disabled={!nextTrack} onClick={() => onFeedback(1)} style={pillStyle(false)}>Like</button>
+            <button disabled={!nextTrack} onClick={() => onFeedback(0)} style={pillStyle(false)}>Skip</button>
+            <button disabled={session.history.length === 0} onClick={onReset} style={pillStyle(false)}>Reset</button>
+          </div>
+        </div>
+      )}
+
+      {/* Cumulative reward */}
+      <div style={{
+        fontSize: '11px',
+        color: '#B8B8B8',
+        letterSpacing: '0.1em',
+        textTransform: 'uppercase',
+        fontFamily: 'Fira Code, monospace',
+        marginBottom: '8px'
+      }}>
+        Cumulative reward (likes)
+      </div>
+      <svg
+        viewBox={`0 0 100 ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        style={{ width: '100%', height: `${CHART_HEIGHT}px`, display: 'block', background: 'rgba(255, 255, 255, 0.02)', borderRadius: '8px' }}
+      >
+        {source === 'simulated' && (
+          <line
+            x1="0"
+            y1={CHART_HEIGHT}
+            x2="100"
+            y2={CHART_HEIGHT - ((bestRate * rounds) / chartMax) * (CHART_HEIGHT - 4)}
+            stroke="rgba(255, 255, 255, 0.3)"
+            strokeDasharray="2 2"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {lines.map(line => (
+          <polyline
+            key={line.label}
+            fill="none"
+            stroke={line.color}
+            strokeWidth="2"
+            vectorEffect="non-scaling-stroke"
+            points={[toPoint(0, 0), ...line.state.history.map((round, index) => toPoint(index + 1, round.cumulativeReward))].join(' ')}
+          />
+        ))}
+      </svg>
+      <div style={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        justifyContent: 'center',
+        gap: '12px',
+        marginTop: '8px',
+        fontSize: '11px',
+        fontFamily: 'Fira Code, monospace',
+        color: '#B8B8B8'
+      }}>
+        {lines.map(line => (
+          <span key={line.label}>
+            <span style={{ color: line.color }}>■</span> {line.label} · {line.state.history[line.state.history.length - 1]?.cumulativeReward ?? 0}
+          </span>
+        ))}
+        {source === 'simulated' && <span>┄ always the favourite · {(bestRate * rounds).toFixed(0)}</span>}
+      </div>
+
+      {/* Arms explored */}
+      <div style={{
+        fontSize: '11px',
+        color: '#B8B8B8',
+        letterSpacing: '0.1em',
+        textTransform: 'uppercase',
+        fontFamily: 'Fira Code, monospace',
+        margin: '20px 0 8px 0'
+      }}>
+        Arms explored · {armsPlayed.length} / {activeState.arms.length} tracks · {(exploredShare * 100).toFixed(0)}% exploratory picks
+      </div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+        {topArms.map(arm => (
+          <div key={arm.track.id} style={{
+            display: 'grid',
+            gridTemplateColumns: '160px 1fr 64px',
+            alignItems: 'center',
+            gap: '10px',
+            fontSize: '11px',
+            fontFamily: 'Fira Code, monospace',
+            color: '#B8B8B8'
+          }}>
+            <span style={{ textAlign: 'left', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{arm.track.name}</span>
+            <div style={{ height: '6px', borderRadius: '3px', background: 'rgba(255, 255, 255, 0.06)', overflow: 'hidden' }}>
+              <div style={{ width: `${(arm.pulls / maxPulls) * 100}%`, height: '100%', background: '#E0CDA9' }} />
+            </div>
+            <span style={{ color: '#EAEAEA', textAlign: 'right' }}>{arm.reward}/{arm.pulls}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
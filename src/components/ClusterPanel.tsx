@@ -0,0 +1,136 @@
+import type { ClusterMethod, ClusterScope, Clustering } from '../types'
+
+interface ClusterPanelProps {
+  clustering: Clustering
+  method: ClusterMethod
+  eps: number
+  filter: number | null // Cluster the track list is limited to, null for all
+  scope: ClusterScope
+  onMethodChange: (method: ClusterMethod) => void
+  onEpsChange: (eps: number) => void
+  onFilterChange: (cluster: number | null) => void
+  onScopeChange: (scope: ClusterScope) => void
+}
+
+const METHODS: Array<{ id: ClusterMethod; label: string; description: string }> = [
+  { id: 'kmeans', label: 'k-Means', description: 'Every track in one of k clusters; k chosen by silhouette score' },
+  { id: 'dbscan', label: 'DBSCAN', description: 'Clusters are dense regions; isolated tracks are left as noise' }
+]
+
+const SCOPES: Array<{ id: ClusterScope; label: string; description: string }> = [
+  { id: 'any', label: 'Any cluster', description: 'Recommend from the whole catalog' },
+  { id: 'stay', label: 'Stay in cluster', description: 'Only recommend tracks from the current song\'s cluster' },
+  { id: 'jump', label: 'Jump cluster', description: 'Only recommend tracks from other clusters' }
+]
+
+const pillStyle = (active: boolean) => ({
+  padding: '6px 14px',
+  borderRadius: '999px',
+  border: active ? '1px solid #E0CDA9' : '1px solid rgba(255, 255, 255, 0.15)',
+  background: active ? 'rgba(224, 205, 169, 0.1)' : 'rgba(255, 255, 255, 0.03)',
+  color: active ? '#E0CDA9' : 'rgba(255, 255, 255, 0.7)',
+  fontSize: '12px',
+  fontFamily: 'Fira Code, monospace',
+  cursor: 'pointer',
+  transition: 'all 0.2s ease'
+})
+
+export default function ClusterPanel({
+  clustering,
+  method,
+  eps,
+  filter,
+  scope,
+  onMethodChange,
+  onEpsChange,
+  onFilterChange,
+  onScopeChange
+}: ClusterPanelProps) {
+  return (
+    <div style={{
+      maxWidth: '480px',
+      margin: '24px auto 0 auto',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      gap: '12px',
+      fontFamily: 'Fira Code, monospace'
+    }}>
+      <div style={{ fontSize: '14px', color: '#B8B8B8', fontWeight: '500', fontFamily: 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif' }}>
+        Clusters in the catalog:
+      </div>
+      <div style={{ display: 'flex', gap: '8px' }}>
+        {METHODS.map(option => (
+          <button
+            key={option.id}
+            onClick={() => onMethodChange(option.id)}
+            title={option.description}
+            style={pillStyle(method === option.id)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {method === 'dbscan' && (
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '12px',
+          fontSize: '12px',
+          color: '#B8B8B8'
+        }}>
+          <span>ε radius</span>
+          <input
+            type="range"
+            min="0.2"
+            max="0.8"
+            step="0.05"
+            value={eps}
+            onChange={(e) => onEpsChange(Number(e.target.value))}
+            style={{ width: '160px', cursor: 'pointer' }}
+          />
+          <span style={{ color: '#E0CDA9' }}>{eps.toFixed(2)}</span>
+        </div>
+      )}
+
+      <div style={{ fontSize: '11px', color: 'rgba(184, 184, 184, 0.6)' }}>
+        {clustering.clusters.length} clusters · silhouette {clustering.silhouette.toFixed(2)}
+        {method === 'dbscan' && ` · ${clustering.noise} noise`}
+      </div>
+
+      {/* Cluster filter for the track list */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '8px' }}>
+        <button onClick={() => onFilterChange(null)} style={pillStyle(filter === null)}>
+          All
+        </button>
+        {clustering.clusters.map(cluster => (
+          <button
+            key={cluster.id}
+            onClick={() => onFilterChange(cluster.id)}
+            style={pillStyle(filter === cluster.id)}
+          >
+            {cluster.description} · {cluster.trackIds.length}
+          </button>
+        ))}
+      </div>
+
+      {/* Cluster rule for the next recommendation */}
+      <div style={{ fontSize: '12px', color: '#B8B8B8', marginTop: '4px' }}>
+        Next track:
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '8px' }}>
+        {SCOPES.map(option => (
+          <button
+            key={option.id}
+            onClick={() => onScopeChange(option.id)}
+            title={option.description}
+            style={pillStyle(scope === option.id)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+import React from 'react'
+import type { CollaborativeResult, RankedTrack, Track } from '../types'
+
+interface CollaborativePanelProps {
+  result: CollaborativeResult
+  recommendations: RankedTrack[] // The list actually shown, after any re-ranking
+  tracks: Track[]
+  populationSize: number
+}
+
+const averagePopularity = (tracks: Track[]) =>
+  tracks.length === 0 ? 0 : tracks.reduce((sum, track) => sum + track.popularity, 0) / tracks.length
+
+export default function CollaborativePanel({ result, recommendations, tracks, populationSize }: CollaborativePanelProps) {
+  const recommended = recommendations.map(item => item.track)
+  const catalogPopularity = averagePopularity(tracks)
+  const recommendedPopularity = averagePopularity(recommended)
+  const uniqueArtists = new Set(recommended.map(track => track.artist)).size
+
+  const stats = [
+    { label: 'Synthetic listeners', value: `${populationSize}` },
+    { label: 'Played this track', value: `${result.seedListeners}` },
+    { label: 'Neighbours used', value: `${result.neighbors.length}` },
+    { label: 'Avg. popularity (recs)', value: recommended.length > 0 ? recommendedPopularity.toFixed(0) : '—' },
+    { label: 'Avg. popularity (catalog)', value: catalogPopularity.toFixed(0) },
+    { label: 'Distinct artists', value: recommended.length > 0 ? `${uniqueArtists} / ${recommended.length}` : '—' }
+  ]
+
+  return (
+    <div style={{
+      maxWidth: window.innerWidth < 768 ? '90vw' : '600px',
+      margin: '32px auto 0 auto',
+      padding: window.innerWidth < 768 ? '16px 20px' : '20px 24px',
+      borderRadius: '16px',
+      background: 'rgba(255, 255, 255, 0.02)',
+      backdropFilter: 'blur(20px)',
+      WebkitBackdropFilter: 'blur(20px)',
+      border: '1px solid rgba(255, 255, 255, 0.08)',
+      textAlign: 'center'
+    }}>
+      <h5 style={{
+        color: '#E0CDA9',
+        fontSize: '14px',
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        letterSpacing: '0.1em',
+        marginBottom: '12px',
+        fontFamily: 'Fira Code, monospace'
+      }}>
+        Listeners Like You
+      </h5>
+
+      {result.coldStart && (
+        <p style={{
+          color: 'rgba(255, 255, 255, 0.8)',
+          fontSize: '0.85rem',
+          lineHeight: '1.6',
+          margin: '0 0 16px 0',
+          fontStyle: 'italic'
+        }}>
+          Cold start: only {result.seedListeners} of {populationSize} listeners have played this track. Without a crowd behind it, collaborative filtering has almost nothing to go on.
+        </p>
+      )}
+
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: '1fr 1fr',
+        rowGap: '0.5rem',
+        columnGap: '1rem',
+        fontSize: '0.8rem',
+        lineHeight: '1.4'
+      }}>
+        {stats.map(stat => (
+          <React.Fragment key={stat.label}>
+            <div style={{
+              color: '#B8B8B8',
+              textTransform: 'uppercase',
+              letterSpacing: '0.05em',
+              fontWeight: '500',
+              textAlign: 'left'
+            }}>
+              {stat.label}
+            </div>
+            <div style={{
+              color: '#EAEAEA',
+              fontWeight: '600',
+              fontFamily: 'Fira Code, monospace',
+              textAlign: 'right'
+            }}>
+              {stat.value}
+            </div>
+          </React.Fragment>
+        ))}
+      </div>
+
+      {recommended.length > 0 && recommendedPopularity > catalogPopularity && (
+        <p style={{
+          color: 'rgba(255, 255, 255, 0.7)',
+          fontSize: '0.8rem',
+          lineHeight: '1.6',
+          margin: '16px 0 0 0'
+        }}>
+          The crowd pulls toward the charts: recommendations are {(recommendedPopularity - catalogPopularity).toFixed(0)} popularity points above the catalog average. That drift is the filter bubble forming.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,237 @@
+import { useState } from 'react'
+import type { ConstrainedPlaylist, FeatureKey, PlaylistConstraints, Track } from '../types'
+
+interface ConstraintPanelProps {
+  constraints: PlaylistConstraints
+  result: ConstrainedPlaylist
+  tracks: Track[]
+  featureKeys: FeatureKey[]                             // Features a range can be set on
+  domain: (key: FeatureKey) => [number, number]         // Catalog range of a feature, in real units
+  formatValue: (key: FeatureKey, value: number) => string
+  maxLength?: number
+  onChange: (constraints: PlaylistConstraints) => void
+}
+
+const pillStyle = (active: boolean) => ({
+  padding: '4px 10px',
+  borderRadius: '999px',
+  border: active ? '1px solid #E0CDA9' : '1px solid rgba(255, 255, 255, 0.15)',
+  background: active ? 'rgba(224, 205, 169, 0.1)' : 'rgba(255, 255, 255, 0.03)',
+  color: active ? '#E0CDA9' : 'rgba(255, 255, 255, 0.7)',
+  fontSize: '11px',
+  fontFamily: 'Fira Code, monospace',
+  cursor: 'pointer'
+})
+
+const selectStyle = {
+  padding: '6px 10px',
+  borderRadius: '8px',
+  border: '1px solid rgba(255, 255, 255, 0.15)',
+  background: 'rgba(255, 255, 255, 0.03)',
+  color: '#EAEAEA',
+  fontSize: '11px',
+  fontFamily: 'Fira Code, monospace'
+}
+
+const rowStyle = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  gap: '12px',
+  fontSize: '12px',
+  color: '#B8B8B8'
+}
+
+export default function ConstraintPanel({
+  constraints,
+  result,
+  tracks,
+  featureKeys,
+  domain,
+  formatValue,
+  maxLength = 20,
+  onChange
+}: ConstraintPanelProps) {
+  const [boundKey, setBoundKey] = useState<FeatureKey>(featureKeys[0])
+  const { length, artistGap = 0, maxGenreShare = 1, required = [], banned = [], bounds = {} } = constraints
+  const nameOf = (id: string) => tracks.find(track => track.id === id)?.name ?? id
+  const update = (changes: Partial<PlaylistConstraints>) => onChange({ ...constraints, ...changes })
+
+  const [low, high] = domain(boundKey)
+  const range = bounds[boundKey] ?? {}
+  const setBound = (side: 'min' | 'max', value: number) => {
+    const next = { ...range, [side]: value }
+    // A bound at the catalog's edge is no bound at all
+    if (next.min !== undefined && next.min <= low) delete next.min
+    if (next.max !== undefined && next.max >= high) delete next.max
+    const rest = { ...bounds }
+    delete rest[boundKey]
+    update({ bounds: next.min === undefined && next.max === undefined ? rest : { ...rest, [boundKey]: next } })
+  }
+  const clearBound = (key: FeatureKey) => {
+    const rest = { ...bounds }
+    delete rest[key]
+    update({ bounds: rest })
+  }
+
+  // Add/remove list for required or banned track ids
+  const trackList = (label: string, ids: string[], field: 'required' | 'banned') => (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '8px' }}>
+      <select
+        value=""
+        onChange={(e) => e.target.value && update({ [field]: [...ids, e.target.value] })}
+        style={selectStyle}
+      >
+        <option value="">{label}</option>
+        {tracks.filter(track => !ids.includes(track.id)).map(track => (
+          <option key={track.id} value={track.id}>{track.name} — {track.artist}</option>
+        ))}
+      </select>
+      {ids.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '6px' }}>
+          {ids.map(id => (
+            <button key={id} onClick={() => update({ [field]: ids.filter(other => other !== id) })} style={pillStyle(true)}>
+              {nameOf(id)} ×
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+
+  const issues = [
+    ...result.violations.map(issue => ({ ...issue, label: 'Broken', color: '#C08497' })),
+    ...result.relaxations.map(issue => ({ ...issue, label: 'Relaxed', color: '#E0CDA9' }))
+  ]
+
+  return (
+    <div style={{
+      maxWidth: window.innerWidth < 768 ? '90vw' : '600px',
+      margin: '32px auto 0 auto',
+      padding: window.innerWidth < 768 ? '16px 20px' : '20px 24px',
+      borderRadius: '16px',
+      background: 'rgba(255, 255, 255, 0.02)',
+      backdropFilter: 'blur(20px)',
+      WebkitBackdropFilter: 'blur(20px)',
+      border: '1px solid rgba(255, 255, 255, 0.08)',
+      textAlign: 'center'
+    }}>
+      <h5 style={{
+        color: '#E0CDA9',
+        fontSize: '14px',
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        letterSpacing: '0.1em',
+        marginBottom: '12px',
+        fontFamily: 'Fira Code, monospace'
+      }}>
+        Playlist Rules
+      </h5>
+      <p style={{
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: '0.85rem',
+        lineHeight: '1.6',
+        margin: '0 0 16px 0'
+      }}>
+        The active algorithm still chooses, but each position takes its favourite track that keeps every rule. When none does, the genre share, then the artist gap, then the feature ranges are loosened for that position.
+      </p>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', fontFamily: 'Fira Code, monospace' }}>
+        <div style={rowStyle}>
+          <span>Tracks</span>
+          <input
+            type="range"
+            min="2"
+            max={maxLength}
+            step="1"
+            value={length}
+            onChange={(e) => update({ length: Number(e.target.value) })}
+            style={{ width: '140px', cursor: 'pointer' }}
+          />
+          <span style={{ color: '#E0CDA9', minWidth: '48px' }}>{length}</span>
+        </div>
+        <div style={rowStyle} title="No artist may appear twice within this many tracks">
+          <span>Artist gap</span>
+          <input
+            type="range"
+            min="0"
+            max="5"
+            step="1"
+            value={artistGap}
+            onChange={(e) => update({ artistGap: Number(e.target.value) })}
+            style={{ width: '140px', cursor: 'pointer' }}
+          />
+          <span style={{ color: '#E0CDA9', minWidth: '48px' }}>{artistGap === 0 ? 'off' : artistGap}</span>
+        </div>
+        <div style={rowStyle} title="Largest share of the playlist one genre may take">
+          <span>Genre share</span>
+          <input
+            type="range"
+            min="0.1"
+            max="1"
+            step="0.05"
+            value={maxGenreShare}
+            onChange={(e) => update({ maxGenreShare: Number(e.target.value) })}
+            style={{ width: '140px', cursor: 'pointer' }}
+          />
+          <span style={{ color: '#E0CDA9', minWidth: '48px' }}>{maxGenreShare >= 1 ? 'off' : `${Math.round(maxGenreShare * 100)}%`}</span>
+        </div>
+
+        {/* Allowed range on one feature at a time */}
+        <div style={{ ...rowStyle, flexWrap: 'wrap' }}>
+          <select value={boundKey} onChange={(e) => setBoundKey(e.target.value as FeatureKey)} style={selectStyle}>
+            {featureKeys.map(key => <option key={key} value={key}>{key}</option>)}
+          </select>
+          <input
+            type="range"
+            min={low}
+            max={high}
+            step={(high - low) / 100 || 1}
+            value={range.min ?? low}
+            onChange={(e) => setBound('min', Number(e.target.value))}
+            style={{ width: '90px', cursor: 'pointer' }}
+          />
+          <input
+            type="range"
+            min={low}
+            max={high}
+            step={(high - low) / 100 || 1}
+            value={range.max ?? high}
+            onChange={(e) => setBound('max', Number(e.target.value))}
+            style={{ width: '90px', cursor: 'pointer' }}
+          />
+          <span style={{ color: '#E0CDA9' }}>
+            {formatValue(boundKey, range.min ?? low)} – {formatValue(boundKey, range.max ?? high)}
+          </span>
+        </div>
+        {Object.keys(bounds).length > 0 && (
+          <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '6px' }}>
+            {(Object.keys(bounds) as FeatureKey[]).map(key => (
+              <button key={key} onClick={() => clearBound(key)} style={pillStyle(key === boundKey)}>
+                {key} {formatValue(key, bounds[key]?.min ?? domain(key)[0])} – {formatValue(key, bounds[key]?.max ?? domain(key)[1])} ×
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '16px' }}>
+          {trackList('Require a track…', required, 'required')}
+          {trackList('Ban a track…', banned, 'banned')}
+        </div>
+      </div>
+
+      <div style={{ marginTop: '16px', textAlign: 'left', fontSize: '0.8rem', lineHeight: '1.6' }}>
+        {issues.length === 0 ? (
+          <div style={{ color: 'rgba(255, 255, 255, 0.7)', textAlign: 'center' }}>Every rule holds.</div>
+        ) : issues.map((issue, i) => (
+          <div key={i} style={{ color: 'rgba(255, 255, 255, 0.8)' }}>
+            <span style={{ color: issue.color, fontFamily: 'Fira Code, monospace', fontSize: '11px' }}>
+              {issue.label}{issue.position !== null ? ` #${issue.position + 1}` : ''}
+            </span>{' '}
+            {issue.message}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
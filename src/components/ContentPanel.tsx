@@ -0,0 +1,74 @@
+import type { RankedTrack, Track } from '../types'
+
+interface ContentPanelProps {
+  recommendations: RankedTrack[]
+  greedyPick: Track | null
+  feature: string
+}
+
+export default function ContentPanel({ recommendations, greedyPick, feature }: ContentPanelProps) {
+  const contentPick = recommendations[0]?.track ?? null
+  const agree = contentPick && greedyPick && contentPick.id === greedyPick.id
+
+  return (
+    <div style={{
+      maxWidth: window.innerWidth < 768 ? '90vw' : '600px',
+      margin: '32px auto 0 auto',
+      padding: window.innerWidth < 768 ? '16px 20px' : '20px 24px',
+      borderRadius: '16px',
+      background: 'rgba(255, 255, 255, 0.02)',
+      backdropFilter: 'blur(20px)',
+      WebkitBackdropFilter: 'blur(20px)',
+      border: '1px solid rgba(255, 255, 255, 0.08)',
+      textAlign: 'center'
+    }}>
+      <h5 style={{
+        color: '#E0CDA9',
+        fontSize: '14px',
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        letterSpacing: '0.1em',
+        marginBottom: '12px',
+        fontFamily: 'Fira Code, monospace'
+      }}>
+        Every Feature vs. One Feature
+      </h5>
+      <p style={{
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: '0.85rem',
+        lineHeight: '1.6',
+        margin: '0 0 16px 0'
+      }}>
+        {agree
+          ? `Both approaches land on "${contentPick?.name}" — here, ${feature} alone happens to tell the same story as the full feature vector.`
+          : `Greedy on ${feature} alone would pick "${greedyPick?.name ?? '—'}". Comparing all twelve audio features at once picks "${contentPick?.name ?? '—'}" instead.`}
+      </p>
+
+      <ol style={{
+        listStyle: 'none',
+        padding: 0,
+        margin: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px'
+      }}>
+        {recommendations.slice(0, 5).map(item => (
+          <li key={item.track.id} style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            gap: '12px',
+            fontSize: '12px',
+            color: 'rgba(255, 255, 255, 0.7)'
+          }}>
+            <span style={{ textAlign: 'left' }}>
+              {item.rank}. {item.track.name} — {item.track.artist}
+            </span>
+            <span style={{ color: '#E0CDA9', fontFamily: 'Fira Code, monospace', whiteSpace: 'nowrap' }}>
+              {((1 - item.distance) * 100).toFixed(0)}% similar
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
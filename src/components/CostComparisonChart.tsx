@@ -0,0 +1,104 @@
+import type { Playlist } from '../types'
+
+interface CostSeries {
+  label: string
+  color: string
+  playlist: Playlist
+}
+
+interface CostComparisonChartProps {
+  series: CostSeries[]
+}
+
+const CHART_HEIGHT = 140
+const BAR_GAP = 2
+
+export default function CostComparisonChart({ series }: CostComparisonChartProps) {
+  const hops = Math.max(0, ...series.map(s => s.playlist.steps.length - 1))
+  const maxHop = Math.max(0.0001, ...series.flatMap(s => s.playlist.steps.slice(1).map(step => step.hopDistance)))
+  const maxTotal = Math.max(0.0001, ...series.map(s => s.playlist.totalCost))
+  const groupWidth = 100 / Math.max(1, hops)
+  const barWidth = (groupWidth - BAR_GAP) / series.length
+
+  return (
+    <div style={{
+      maxWidth: window.innerWidth < 768 ? '90vw' : '600px',
+      margin: '32px auto 0 auto',
+      padding: window.innerWidth < 768 ? '16px 20px' : '20px 24px',
+      borderRadius: '16px',
+      background: 'rgba(255, 255, 255, 0.02)',
+      border: '1px solid rgba(255, 255, 255, 0.08)',
+      textAlign: 'center'
+    }}>
+      <h5 style={{
+        color: '#E0CDA9',
+        fontSize: '14px',
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        letterSpacing: '0.1em',
+        marginBottom: '16px',
+        fontFamily: 'Fira Code, monospace'
+      }}>
+        Transition Cost
+      </h5>
+
+      {/* Total cost bars */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '24px' }}>
+        {series.map(s => (
+          <div key={s.label} style={{
+            display: 'grid',
+            gridTemplateColumns: '110px 1fr 56px',
+            alignItems: 'center',
+            gap: '12px',
+            fontSize: '12px',
+            fontFamily: 'Fira Code, monospace',
+            color: '#B8B8B8'
+          }}>
+            <span style={{ textAlign: 'left' }}>{s.label}</span>
+            <div style={{ height: '8px', borderRadius: '4px', background: 'rgba(255, 255, 255, 0.06)', overflow: 'hidden' }}>
+              <div style={{ width: `${(s.playlist.totalCost / maxTotal) * 100}%`, height: '100%', background: s.color }} />
+            </div>
+            <span style={{ color: '#EAEAEA', textAlign: 'right' }}>{s.playlist.totalCost.toFixed(3)}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Per-step cost bars */}
+      <svg
+        viewBox={`0 0 100 ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        style={{ width: '100%', height: `${CHART_HEIGHT}px`, display: 'block' }}
+      >
+        {series.map((s, seriesIndex) =>
+          s.playlist.steps.slice(1).map((step, hop) => {
+            const height = (step.hopDistance / maxHop) * (CHART_HEIGHT - 4)
+            return (
+              <rect
+                key={`${s.label}-${hop}`}
+                x={hop * groupWidth + BAR_GAP / 2 + seriesIndex * barWidth}
+                y={CHART_HEIGHT - height}
+                width={barWidth}
+                height={height}
+                fill={s.color}
+              >
+                <title>{`${s.label}, hop ${hop + 1}: ${step.hopDistance.toFixed(3)}`}</title>
+              </rect>
+            )
+          })
+        )}
+      </svg>
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        marginTop: '8px',
+        fontSize: '11px',
+        color: 'rgba(184, 184, 184, 0.6)',
+        fontFamily: 'Fira Code, monospace'
+      }}>
+        <span>hop 1</span>
+        <span>cost per step</span>
+        <span>hop {hops}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+import type { Counterfactual, FeatureKey, Track } from '../types'
+
+interface CounterfactualPanelProps {
+  tracks: Track[]
+  result: Counterfactual | null
+  listedRank: number | null                             // Position in the list shown, after re-ranking
+  keys: FeatureKey[]                                    // Features the ranking is on
+  target: Partial<Pick<Track, FeatureKey>>              // Current target, normalized
+  formatValue: (key: FeatureKey, normalized: number) => string
+  valueOf: (track: Track, key: FeatureKey) => number    // Track's normalized value
+  onProbeChange: (trackId: string | null) => void
+}
+
+export default function CounterfactualPanel({
+  tracks,
+  result,
+  listedRank,
+  keys,
+  target,
+  formatValue,
+  valueOf,
+  onProbeChange
+}: CounterfactualPanelProps) {
+  const lineStyle = {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: '0.85rem',
+    lineHeight: '1.6',
+    margin: '0 0 8px 0'
+  }
+  const highlight = { color: '#E0CDA9' }
+  const listed = listedRank === null
+    ? ' Popularity and diversity re-ranking, or the cluster and genre filters, keep it out of the list you see.'
+    : ` In the list you see, after re-ranking, it's #${listedRank}.`
+
+  return (
+    <div style={{
+      maxWidth: window.innerWidth < 768 ? '90vw' : '600px',
+      margin: '32px auto 0 auto',
+      padding: window.innerWidth < 768 ? '16px 20px' : '20px 24px',
+      borderRadius: '16px',
+      background: 'rgba(255, 255, 255, 0.02)',
+      backdropFilter: 'blur(20px)',
+      WebkitBackdropFilter: 'blur(20px)',
+      border: '1px solid rgba(255, 255, 255, 0.08)',
+      textAlign: 'center'
+    }}>
+      <h5 style={{
+        color: '#E0CDA9',
+        fontSize: '14px',
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        letterSpacing: '0.1em',
+        marginBottom: '12px',
+        fontFamily: 'Fira Code, monospace'
+      }}>
+        Why Not This Track?
+      </h5>
+
+      <select
+        value={result?.track.id ?? ''}
+        onChange={(e) => onProbeChange(e.target.value || null)}
+        style={{
+          width: '100%',
+          maxWidth: '360px',
+          padding: '8px 12px',
+          marginBottom: '16px',
+          borderRadius: '8px',
+          border: '1px solid rgba(255, 255, 255, 0.15)',
+          background: 'rgba(255, 255, 255, 0.03)',
+          color: '#EAEAEA',
+          fontSize: '12px',
+          fontFamily: 'Fira Code, monospace'
+        }}
+      >
+        <option value="">Pick any track, or use "Why not?" on a card</option>
+        {tracks.map(track => (
+          <option key={track.id} value={track.id}>{track.name} — {track.artist}</option>
+        ))}
+      </select>
+
+      {result && (
+        <div style={{ textAlign: 'left' }}>
+          {result.rank === 1 ? (
+            <p style={lineStyle}>
+              <span style={highlight}>{result.track.name}</span> already tops the slider ranking: distance to the target plus its random jitter.{listed}
+            </p>
+          ) : (
+            <>
+              <p style={lineStyle}>
+                <span style={highlight}>{result.track.name}</span> ranks #{result.rank} of {tracks.length} in the slider ranking: distance to the target plus the same random jitter, before re-ranking.
+                {result.leader && <> The top pick is <span style={highlight}>{result.leader.name}</span>.</>}{listed}
+              </p>
+              {!result.blocking && result.leader && (
+                <p style={lineStyle}>
+                  It's no farther from the target than the top pick; only the jitter or catalog order keeps it behind.
+                </p>
+              )}
+              {result.blocking && result.leader && (
+                <p style={lineStyle}>
+                  Blocked by <span style={highlight}>{result.blocking}</span>: {formatValue(result.blocking, valueOf(result.track, result.blocking))} here
+                  vs. {formatValue(result.blocking, valueOf(result.leader, result.blocking))} for the top pick, with the target at {formatValue(result.blocking, target[result.blocking] ?? 0)}.
+                </p>
+              )}
+              <p style={lineStyle}>
+                {result.targetShift
+                  ? <>Move the target to {keys.map(key => formatValue(key, result.targetShift?.target[key] ?? 0)).join(', ')} ({result.targetShift.change.toFixed(3)} in normalized units) and it becomes the top pick.</>
+                  : 'No target makes it the top pick: another track has the same values and comes first in the catalog.'}
+              </p>
+              <p style={{ ...lineStyle, margin: 0 }}>
+                {!result.weightShift
+                  ? 'No single feature weight makes it the top pick.'
+                  : keys.includes(result.weightShift.key)
+                    ? <>Or weigh <span style={highlight}>{result.weightShift.key}</span> at ×{result.weightShift.weight.toFixed(2)} instead of ×1.</>
+                    : <>Or also weigh closeness to the current song's <span style={highlight}>{result.weightShift.key}</span> at ×{result.weightShift.weight.toFixed(2)}, beside {keys.join(', ')} at ×1.</>}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
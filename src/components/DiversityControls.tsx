@@ -0,0 +1,114 @@
+import type { DiversityMethod } from '../types'
+
+interface DiversityControlsProps {
+  method: DiversityMethod
+  lambda: number
+  diversity: number          // Intra-list diversity of the list shown
+  baselineDiversity: number  // Intra-list diversity without re-ranking
+  onMethodChange: (method: DiversityMethod) => void
+  onLambdaChange: (lambda: number) => void
+}
+
+const METHODS: Array<{ id: DiversityMethod; label: string; description: string }> = [
+  { id: 'none', label: 'Off', description: 'Raw algorithm order' },
+  { id: 'mmr', label: 'MMR', description: 'Maximal Marginal Relevance: penalize similarity to tracks already picked' },
+  { id: 'dpp', label: 'DPP', description: 'Determinantal point process: pick the set spanning the most feature volume' }
+]
+
+export default function DiversityControls({
+  method,
+  lambda,
+  diversity,
+  baselineDiversity,
+  onMethodChange,
+  onLambdaChange
+}: DiversityControlsProps) {
+  const maxDiversity = Math.max(0.0001, diversity, baselineDiversity)
+  const bars = [
+    { label: 'Without re-ranking', value: baselineDiversity, color: 'rgba(224, 205, 169, 0.4)' },
+    { label: 'Shown list', value: diversity, color: '#E0CDA9' }
+  ]
+
+  return (
+    <div style={{
+      maxWidth: '480px',
+      margin: '24px auto 0 auto',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      gap: '12px',
+      fontFamily: 'Fira Code, monospace'
+    }}>
+      <div style={{ fontSize: '14px', color: '#B8B8B8', fontWeight: '500', fontFamily: 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif' }}>
+        Diversity re-ranking:
+      </div>
+      <div style={{ display: 'flex', gap: '8px' }}>
+        {METHODS.map(option => (
+          <button
+            key={option.id}
+            onClick={() => onMethodChange(option.id)}
+            title={option.description}
+            style={{
+              padding: '8px 16px',
+              borderRadius: '999px',
+              border: method === option.id ? '1px solid #E0CDA9' : '1px solid rgba(255, 255, 255, 0.15)',
+              background: method === option.id ? 'rgba(224, 205, 169, 0.1)' : 'rgba(255, 255, 255, 0.03)',
+              color: method === option.id ? '#E0CDA9' : 'rgba(255, 255, 255, 0.7)',
+              fontSize: '13px',
+              fontFamily: 'Fira Code, monospace',
+              cursor: 'pointer',
+              transition: 'all 0.2s ease'
+            }}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        fontSize: '12px',
+        color: '#B8B8B8',
+        opacity: method === 'none' ? 0.4 : 1
+      }}>
+        <span>curiosity</span>
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.05"
+          value={lambda}
+          disabled={method === 'none'}
+          onChange={(e) => onLambdaChange(Number(e.target.value))}
+          style={{ width: '160px', cursor: method === 'none' ? 'default' : 'pointer' }}
+        />
+        <span>coherence</span>
+        <span style={{ color: '#E0CDA9' }}>λ {lambda.toFixed(2)}</span>
+      </div>
+
+      <div style={{ width: '100%', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+        {bars.map(bar => (
+          <div key={bar.label} style={{
+            display: 'grid',
+            gridTemplateColumns: '140px 1fr 48px',
+            alignItems: 'center',
+            gap: '10px',
+            fontSize: '11px',
+            color: '#B8B8B8'
+          }}>
+            <span style={{ textAlign: 'left' }}>{bar.label}</span>
+            <div style={{ height: '6px', borderRadius: '3px', background: 'rgba(255, 255, 255, 0.06)', overflow: 'hidden' }}>
+              <div style={{ width: `${(bar.value / maxDiversity) * 100}%`, height: '100%', background: bar.color }} />
+            </div>
+            <span style={{ color: '#EAEAEA', textAlign: 'right' }}>{bar.value.toFixed(3)}</span>
+          </div>
+        ))}
+        <div style={{ fontSize: '11px', color: 'rgba(184, 184, 184, 0.6)' }}>
+          intra-list diversity · mean pairwise distance across all features
+        </div>
+      </div>
+    </div>
+  )
+}
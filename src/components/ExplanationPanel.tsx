@@ -0,0 +1,154 @@
+import type { RankedTrack } from '../types'
+
+// One track to explain: where it sits in the ranking that produced it
+interface ExplainedPick {
+  label: string               // e.g. "Current Selection"
+  ranked: RankedTrack | null  // Null when the track wasn't picked by a ranking
+  poolSize: number            // Length of the ranking it came from
+  scoring: string             // What the score measures for this algorithm
+  note?: string               // Shown instead of the breakdown when there is no ranking
+}
+
+interface ExplanationPanelProps {
+  picks: ExplainedPick[]
+}
+
+const formatSigned = (value: number) => `${value >= 0 ? '+' : '−'}${Math.abs(value).toFixed(3)}`
+
+function PickBreakdown({ pick }: { pick: ExplainedPick }) {
+  const { ranked } = pick
+  const explanation = ranked?.explanation
+  const maxShare = Math.max(0.0001, ...(explanation?.contributions.map(c => c.share) ?? []))
+
+  return (
+    <div style={{ flex: 1, minWidth: '220px', textAlign: 'left' }}>
+      <div style={{
+        fontSize: '11px',
+        color: '#E0CDA9',
+        letterSpacing: '0.15em',
+        textTransform: 'uppercase',
+        fontFamily: 'Fira Code, monospace',
+        marginBottom: '8px'
+      }}>
+        {pick.label}
+      </div>
+
+      {!ranked || !explanation ? (
+        <div style={{ fontSize: '0.8rem', color: 'rgba(255, 255, 255, 0.7)', lineHeight: '1.6' }}>
+          {pick.note ?? 'Not in the current ranking.'}
+        </div>
+      ) : (
+        <>
+          <div style={{ fontSize: '13px', color: '#EAEAEA', marginBottom: '4px' }}>
+            {ranked.track.name}
+          </div>
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: 'auto 1fr',
+            columnGap: '12px',
+            rowGap: '2px',
+            fontSize: '11px',
+            fontFamily: 'Fira Code, monospace',
+            color: '#B8B8B8',
+            marginBottom: '10px'
+          }}>
+            <span>Rank</span>
+            <span style={{ color: '#EAEAEA' }}>#{ranked.rank} of {pick.poolSize}</span>
+            <span>Distance</span>
+            <span style={{ color: '#EAEAEA' }}>{ranked.distance.toFixed(3)}</span>
+            <span>Base</span>
+            <span style={{ color: '#EAEAEA' }} title={pick.scoring}>
+              {(ranked.score - explanation.jitter - explanation.adjustment).toFixed(3)}
+            </span>
+            <span>Jitter</span>
+            <span style={{ color: '#EAEAEA' }}>{formatSigned(explanation.jitter)}</span>
+            {explanation.adjustment !== 0 && (
+              <>
+                <span>Popularity</span>
+                <span style={{ color: '#EAEAEA' }}>{formatSigned(explanation.adjustment)}</span>
+              </>
+            )}
+            <span>Score</span>
+            <span style={{ color: '#EAEAEA' }}>{ranked.score.toFixed(3)}</span>
+            <span>Margin</span>
+            <span style={{ color: explanation.margin !== null && explanation.margin < 0 ? '#C08497' : '#EAEAEA' }}>
+              {explanation.margin === null ? '— last in list' : `${formatSigned(explanation.margin)} vs #${ranked.rank + 1}`}
+            </span>
+          </div>
+
+          {explanation.contributions.length > 0 ? (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+              {explanation.contributions.map(contribution => (
+                <div key={contribution.key} title={`${contribution.value.toFixed(3)} vs target ${contribution.target.toFixed(3)}`}>
+                  <div style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    fontSize: '10px',
+                    fontFamily: 'Fira Code, monospace',
+                    color: '#B8B8B8',
+                    textTransform: 'uppercase',
+                    letterSpacing: '0.05em'
+                  }}>
+                    <span>{contribution.key}</span>
+                    <span style={{ color: '#EAEAEA' }}>{contribution.share.toFixed(3)}</span>
+                  </div>
+                  <div style={{ height: '4px', borderRadius: '2px', background: 'rgba(255, 255, 255, 0.06)' }}>
+                    <div style={{
+                      width: `${(contribution.share / maxShare) * 100}%`,
+                      height: '100%',
+                      borderRadius: '2px',
+                      background: '#E0CDA9'
+                    }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div style={{ fontSize: '0.75rem', color: 'rgba(255, 255, 255, 0.6)', lineHeight: '1.5' }}>
+              {pick.scoring}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default function ExplanationPanel({ picks }: ExplanationPanelProps) {
+  return (
+    <div style={{
+      maxWidth: window.innerWidth < 768 ? '90vw' : '600px',
+      margin: '32px auto 0 auto',
+      padding: window.innerWidth < 768 ? '16px 20px' : '20px 24px',
+      borderRadius: '16px',
+      background: 'rgba(255, 255, 255, 0.02)',
+      backdropFilter: 'blur(20px)',
+      WebkitBackdropFilter: 'blur(20px)',
+      border: '1px solid rgba(255, 255, 255, 0.08)',
+      textAlign: 'center'
+    }}>
+      <h5 style={{
+        color: '#E0CDA9',
+        fontSize: '14px',
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        letterSpacing: '0.1em',
+        marginBottom: '12px',
+        fontFamily: 'Fira Code, monospace'
+      }}>
+        Why This?
+      </h5>
+      <p style={{
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: '0.85rem',
+        lineHeight: '1.6',
+        margin: '0 0 16px 0'
+      }}>
+        Each pick's score is its algorithm's base score (hover it for what that measures), plus any random jitter, plus the shift popularity debiasing applies. Diversity re-ranking only reorders, so a pick lifted above a better score shows a negative margin. Bars show how much each feature adds to the distance; the margin is how far its score leads the track ranked below it.
+      </p>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '24px' }}>
+        {picks.map(pick => <PickBreakdown key={pick.label} pick={pick} />)}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,204 @@
+import type { AcceptanceModel, FeedbackLoopResult, FeedbackRound } from '../types'
+
+interface FeedbackLoopPanelProps {
+  result: FeedbackLoopResult | null
+  progress: number | null // Share of rounds done while a simulation runs
+  algorithmName: string
+  rounds: number
+  acceptance: AcceptanceModel
+  catalogSize: number
+  onRoundsChange: (rounds: number) => void
+  onAcceptanceChange: (acceptance: AcceptanceModel) => void
+  onRun: () => void
+  onCancel: () => void
+}
+
+const ACCEPTANCE_MODELS: Array<{ id: AcceptanceModel; label: string; description: string }> = [
+  { id: 'always', label: 'Always', description: 'Takes the top recommendation every round' },
+  { id: 'probabilistic', label: 'Probabilistic', description: 'More likely to accept tracks close to current taste' },
+  { id: 'picky', label: 'Picky', description: 'Takes the top recommendation only if it is close to current taste' }
+]
+
+const METRICS: Array<{ key: keyof Pick<FeedbackRound, 'drift' | 'coverage' | 'diversity'>; label: string; description: string }> = [
+  { key: 'drift', label: 'Preference drift', description: 'How far taste has moved from the starting song' },
+  { key: 'coverage', label: 'Catalog coverage', description: 'Share of the catalog ever recommended' },
+  { key: 'diversity', label: 'Listening diversity', description: 'Spread of the last 10 accepted tracks' }
+]
+
+const CHART_HEIGHT = 60
+
+export default function FeedbackLoopPanel({
+  result,
+  progress,
+  algorithmName,
+  rounds,
+  acceptance,
+  catalogSize,
+  onRoundsChange,
+  onAcceptanceChange,
+  onRun,
+  onCancel
+}: FeedbackLoopPanelProps) {
+  const running = progress !== null
+  const history = result?.rounds ?? []
+  const acceptedRounds = history.filter(round => round.track)
+  const distinctAccepted = new Set(acceptedRounds.map(round => round.track?.id)).size
+  const last = history[history.length - 1]
+  const peakDiversity = Math.max(0, ...history.map(round => round.diversity))
+
+  return (
+    <div style={{
+      maxWidth: window.innerWidth < 768 ? '90vw' : '600px',
+      margin: '32px auto 0 auto',
+      padding: window.innerWidth < 768 ? '16px 20px' : '20px 24px',
+      borderRadius: '16px',
+      background: 'rgba(255, 255, 255, 0.02)',
+      backdropFilter: 'blur(20px)',
+      WebkitBackdropFilter: 'blur(20px)',
+      border: '1px solid rgba(255, 255, 255, 0.08)',
+      textAlign: 'center'
+    }}>
+      <h5 style={{
+        color: '#E0CDA9',
+        fontSize: '14px',
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        letterSpacing: '0.1em',
+        marginBottom: '12px',
+        fontFamily: 'Fira Code, monospace'
+      }}>
+        The Feedback Loop
+      </h5>
+      <p style={{
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: '0.85rem',
+        lineHeight: '1.6',
+        margin: '0 0 16px 0'
+      }}>
+        A synthetic listener starts from this song and takes recommendations from {algorithmName}, round after round. Every track they accept pulls their taste toward it, and the next round is recommended from that new taste.
+      </p>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '8px', marginBottom: '12px' }}>
+        {ACCEPTANCE_MODELS.map(model => (
+          <button
+            key={model.id}
+            onClick={() => onAcceptanceChange(model.id)}
+            title={model.description}
+            style={{
+              padding: '6px 14px',
+              borderRadius: '999px',
+              border: acceptance === model.id ? '1px solid #E0CDA9' : '1px solid rgba(255, 255, 255, 0.15)',
+              background: acceptance === model.id ? 'rgba(224, 205, 169, 0.1)' : 'rgba(255, 255, 255, 0.03)',
+              color: acceptance === model.id ? '#E0CDA9' : 'rgba(255, 255, 255, 0.7)',
+              fontSize: '12px',
+              fontFamily: 'Fira Code, monospace',
+              cursor: 'pointer',
+              transition: 'all 0.2s ease'
+            }}
+          >
+            {model.label}
+          </button>
+        ))}
+      </div>
+
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '12px',
+        fontSize: '12px',
+        color: '#B8B8B8',
+        fontFamily: 'Fira Code, monospace',
+        marginBottom: '12px'
+      }}>
+        <span>Rounds:</span>
+        <input
+          type="range"
+          min="50"
+          max="500"
+          step="50"
+          value={rounds}
+          onChange={(e) => onRoundsChange(Number(e.target.value))}
+          style={{ width: '160px', cursor: 'pointer' }}
+        />
+        <span style={{ color: '#E0CDA9', width: '32px' }}>{rounds}</span>
+      </div>
+
+      <button
+        onClick={running ? onCancel : onRun}
+        style={{
+          padding: '8px 20px',
+          borderRadius: '999px',
+          border: '1px solid #E0CDA9',
+          background: 'rgba(224, 205, 169, 0.1)',
+          color: '#E0CDA9',
+          fontSize: '13px',
+          fontFamily: 'Fira Code, monospace',
+          cursor: 'pointer',
+          marginBottom: running ? '8px' : '16px'
+        }}
+      >
+        {running ? `Cancel · ${Math.round(progress * 100)}%` : result ? 'Run again' : 'Run simulation'}
+      </button>
+
+      {running && (
+        <div style={{
+          height: '3px',
+          borderRadius: '2px',
+          background: 'rgba(255, 255, 255, 0.06)',
+          overflow: 'hidden',
+          marginBottom: '16px'
+        }}>
+          <div style={{ width: `${progress * 100}%`, height: '100%', background: '#E0CDA9', transition: 'width 0.2s ease' }} />
+        </div>
+      )}
+
+      {result && last && (
+        <>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            {METRICS.map(metric => {
+              const max = Math.max(0.0001, ...history.map(round => round[metric.key]))
+              const points = history
+                .map((round, index) => `${(index / Math.max(1, history.length - 1)) * 100},${CHART_HEIGHT - (round[metric.key] / max) * (CHART_HEIGHT - 4)}`)
+                .join(' ')
+              return (
+                <div key={metric.key} title={metric.description}>
+                  <div style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    fontSize: '11px',
+                    fontFamily: 'Fira Code, monospace',
+                    color: '#B8B8B8',
+                    marginBottom: '4px'
+                  }}>
+                    <span style={{ textTransform: 'uppercase', letterSpacing: '0.1em' }}>{metric.label}</span>
+                    <span style={{ color: '#EAEAEA' }}>
+                      {metric.key === 'coverage' ? `${(last.coverage * 100).toFixed(0)}%` : last[metric.key].toFixed(3)}
+                    </span>
+                  </div>
+                  <svg
+                    viewBox={`0 0 100 ${CHART_HEIGHT}`}
+                    preserveAspectRatio="none"
+                    style={{ width: '100%', height: `${CHART_HEIGHT}px`, display: 'block', background: 'rgba(255, 255, 255, 0.02)', borderRadius: '6px' }}
+                  >
+                    <polyline fill="none" stroke="#E0CDA9" strokeWidth="2" vectorEffect="non-scaling-stroke" points={points} />
+                  </svg>
+                </div>
+              )
+            })}
+          </div>
+
+          <p style={{
+            color: 'rgba(255, 255, 255, 0.7)',
+            fontSize: '0.8rem',
+            lineHeight: '1.6',
+            margin: '16px 0 0 0'
+          }}>
+            Accepted {acceptedRounds.length} of {history.length} rounds, but only {distinctAccepted} different tracks out of {catalogSize}.
+            {last.diversity < peakDiversity / 2 && ' Listening diversity has collapsed to under half its peak — the loop is closing in.'}
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+import type { Genre, Track } from '../types'
+import { GENRES, GENRE_COLORS } from '../data/genres'
+
+interface GenreControlsProps {
+  tracks: Track[]
+  filter: Genre | null     // Genre the track list is limited to, null for all
+  colorBy: boolean         // Color track cards by genre
+  weight: number           // Content-based distance added outside the seed's genre
+  onFilterChange: (genre: Genre | null) => void
+  onColorByChange: (colorBy: boolean) => void
+  onWeightChange: (weight: number) => void
+}
+
+const pillStyle = (active: boolean, color = '#E0CDA9') => ({
+  padding: '6px 14px',
+  borderRadius: '999px',
+  border: active ? `1px solid ${color}` : '1px solid rgba(255, 255, 255, 0.15)',
+  background: active ? 'rgba(224, 205, 169, 0.1)' : 'rgba(255, 255, 255, 0.03)',
+  color: active ? color : 'rgba(255, 255, 255, 0.7)',
+  fontSize: '12px',
+  fontFamily: 'Fira Code, monospace',
+  cursor: 'pointer',
+  transition: 'all 0.2s ease'
+})
+
+export default function GenreControls({
+  tracks,
+  filter,
+  colorBy,
+  weight,
+  onFilterChange,
+  onColorByChange,
+  onWeightChange
+}: GenreControlsProps) {
+  // Only genres present in the catalog get a filter
+  const counts = GENRES
+    .map(genre => ({ genre, count: tracks.filter(track => track.genre === genre).length }))
+    .filter(entry => entry.count > 0)
+
+  return (
+    <div style={{
+      maxWidth: '480px',
+      margin: '24px auto 0 auto',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      gap: '12px',
+      fontFamily: 'Fira Code, monospace'
+    }}>
+      <div style={{ fontSize: '14px', color: '#B8B8B8', fontWeight: '500', fontFamily: 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif' }}>
+        Genres in the catalog:
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '8px' }}>
+        <button onClick={() => onFilterChange(null)} style={pillStyle(filter === null)}>
+          All
+        </button>
+        {counts.map(({ genre, count }) => (
+          <button
+            key={genre}
+            onClick={() => onFilterChange(genre)}
+            style={pillStyle(filter === genre, colorBy ? GENRE_COLORS[genre] : undefined)}
+          >
+            {genre} · {count}
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onColorByChange(!colorBy)}
+        title="Mark each track card with its genre's color"
+        style={pillStyle(colorBy)}
+      >
+        Color by genre: {colorBy ? 'on' : 'off'}
+      </button>
+
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        fontSize: '12px',
+        color: '#B8B8B8'
+      }}>
+        <span title="Content-based distance added to tracks outside the current song's genre">Genre weight</span>
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.05"
+          value={weight}
+          onChange={(e) => onWeightChange(Number(e.target.value))}
+          style={{ width: '160px', cursor: 'pointer' }}
+        />
+        <span style={{ color: '#E0CDA9' }}>{weight.toFixed(2)}</span>
+      </div>
+      <div style={{ fontSize: '11px', color: 'rgba(184, 184, 184, 0.6)', textAlign: 'center' }}>
+        Content-based similarity adds the weight to every track outside the current song's genre · unknown genres never match
+      </div>
+    </div>
+  )
+}
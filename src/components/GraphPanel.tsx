@@ -0,0 +1,158 @@
+import type { GraphEdge, GraphResult, Track } from '../types'
+
+interface GraphPanelProps {
+  seed: Track                     // Track the walk restarts at
+  edgeCount: number               // Links in the whole graph
+  seedEdges: GraphEdge[]          // Links from the seed
+  trackCount: number
+  result: GraphResult
+  restart: number                 // Chance of jumping back to the seed each step
+  walkLength: number              // Steps simulated
+  greedyIds: string[] | null      // Tracks the greedy playlist visits, null without a feature
+  feature: string | null          // Feature the greedy playlist follows
+  onRestartChange: (restart: number) => void
+  onWalkLengthChange: (walkLength: number) => void
+}
+
+// Picks listed in the panel
+const SHOWN = 8
+
+const sliderRow = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  gap: '12px',
+  fontSize: '12px',
+  color: '#B8B8B8',
+  fontFamily: 'Fira Code, monospace'
+}
+
+export default function GraphPanel({
+  seed,
+  edgeCount,
+  seedEdges,
+  trackCount,
+  result,
+  restart,
+  walkLength,
+  greedyIds,
+  feature,
+  onRestartChange,
+  onWalkLengthChange
+}: GraphPanelProps) {
+  const picks = result.recommendations.slice(0, SHOWN)
+  const unreached = greedyIds ? picks.filter(item => !greedyIds.includes(item.track.id)) : []
+  const multiHop = picks.filter(item => (result.hops[item.track.id] ?? 0) > 1).length
+
+  return (
+    <div style={{
+      maxWidth: window.innerWidth < 768 ? '90vw' : '600px',
+      margin: '32px auto 0 auto',
+      padding: window.innerWidth < 768 ? '16px 20px' : '20px 24px',
+      borderRadius: '16px',
+      background: 'rgba(255, 255, 255, 0.02)',
+      backdropFilter: 'blur(20px)',
+      WebkitBackdropFilter: 'blur(20px)',
+      border: '1px solid rgba(255, 255, 255, 0.08)',
+      textAlign: 'center'
+    }}>
+      <h5 style={{
+        color: '#E0CDA9',
+        fontSize: '14px',
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        letterSpacing: '0.1em',
+        marginBottom: '12px',
+        fontFamily: 'Fira Code, monospace'
+      }}>
+        Walking the Similarity Graph
+      </h5>
+      <p style={{
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: '0.85rem',
+        lineHeight: '1.6',
+        margin: '0 0 16px 0'
+      }}>
+        Every track links to its nearest neighbours on the audio features, to the artist's other tracks and to its genre. A walker starts on {seed.name}, follows links at random and jumps home now and then; tracks it keeps landing on rank highest, even when they're several links away.
+      </p>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '8px' }}>
+        <div style={sliderRow}>
+          <span title="Chance of jumping back to the current song at each step">Restart</span>
+          <input
+            type="range"
+            min="0.05"
+            max="0.9"
+            step="0.05"
+            value={restart}
+            onChange={(e) => onRestartChange(Number(e.target.value))}
+            style={{ width: '160px', cursor: 'pointer' }}
+          />
+          <span style={{ color: '#E0CDA9', width: '36px' }}>{restart.toFixed(2)}</span>
+        </div>
+        <div style={sliderRow}>
+          <span title="Steps of the walk simulated">Walk length</span>
+          <input
+            type="range"
+            min="1"
+            max="30"
+            step="1"
+            value={walkLength}
+            onChange={(e) => onWalkLengthChange(Number(e.target.value))}
+            style={{ width: '160px', cursor: 'pointer' }}
+          />
+          <span style={{ color: '#E0CDA9', width: '36px' }}>{walkLength}</span>
+        </div>
+      </div>
+      <div style={{ fontSize: '11px', color: 'rgba(184, 184, 184, 0.6)', fontFamily: 'Fira Code, monospace', marginBottom: '16px' }}>
+        {trackCount} tracks · {edgeCount} links · {seedEdges.length} from this song
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', textAlign: 'left' }}>
+        {picks.map(({ track, rank }) => {
+          const hops = result.hops[track.id]
+          const direct = seedEdges.find(edge => edge.to === track.id)
+          const missed = greedyIds !== null && !greedyIds.includes(track.id)
+          return (
+            <div
+              key={track.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '10px',
+                padding: '8px 12px',
+                borderRadius: '8px',
+                background: 'rgba(255, 255, 255, 0.03)',
+                border: missed ? '1px solid rgba(224, 205, 169, 0.35)' : '1px solid rgba(255, 255, 255, 0.06)',
+                fontSize: '0.8rem'
+              }}
+            >
+              <span style={{ color: '#E0CDA9', fontFamily: 'Fira Code, monospace', width: '20px' }}>{rank}</span>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ color: '#EAEAEA', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {track.name} <span style={{ color: 'rgba(255, 255, 255, 0.5)' }}>· {track.artist}</span>
+                </div>
+                <div style={{ fontSize: '10px', color: '#B8B8B8', fontFamily: 'Fira Code, monospace' }}>
+                  {direct ? `linked: ${direct.kinds.join(' + ')}` : `${hops ?? '∞'} hops away`}
+                  {` · ${((result.scores[track.id] ?? 0) * 100).toFixed(1)}% of visits`}
+                </div>
+              </div>
+              {missed && (
+                <span style={{ fontSize: '10px', color: '#E0CDA9', fontFamily: 'Fira Code, monospace', whiteSpace: 'nowrap' }}>
+                  greedy never reaches
+                </span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <div style={{ fontSize: '11px', color: 'rgba(184, 184, 184, 0.6)', marginTop: '12px' }}>
+        {greedyIds
+          ? `${unreached.length} of the top ${picks.length} never appear in the greedy playlist on ${feature}`
+          : 'Pick a feature to compare with the greedy playlist'}
+        {multiHop > 0 && ` · ${multiHop} sit more than one link away`}
+      </div>
+    </div>
+  )
+}
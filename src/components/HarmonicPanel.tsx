@@ -0,0 +1,112 @@
+import type { HarmonicRelation, RankedTrack, Track } from '../types'
+import { formatCamelot, harmonicRelation, keyName, toCamelot } from '../lib/engine'
+
+interface HarmonicPanelProps {
+  seed: Track
+  recommendations: RankedTrack[] // Harmonic ranking, best first
+  proximity: RankedTrack[]       // Nearest tracks by raw feature proximity, for contrast
+}
+
+const RELATION_LABELS: Record<HarmonicRelation, string> = {
+  same: 'same key',
+  relative: 'relative major/minor',
+  up: '+1 fifth up',
+  down: '−1 fifth down',
+  diagonal: 'energy shift',
+  clash: 'key clash',
+  unknown: 'no key'
+}
+
+// Relations a DJ can mix without the keys fighting
+const COMPATIBLE: HarmonicRelation[] = ['same', 'relative', 'up', 'down']
+
+export default function HarmonicPanel({ seed, recommendations, proximity }: HarmonicPanelProps) {
+  const seedCode = toCamelot(seed)
+  const relationTo = (track: Track) => harmonicRelation(seedCode, toCamelot(track))
+  const harmonicPick = recommendations[0]?.track ?? null
+  const proximityPick = proximity[0]?.track ?? null
+  const nearest = proximity.slice(0, 5)
+  const nearestCompatible = nearest.filter(item => COMPATIBLE.includes(relationTo(item.track))).length
+
+  return (
+    <div style={{
+      maxWidth: window.innerWidth < 768 ? '90vw' : '600px',
+      margin: '32px auto 0 auto',
+      padding: window.innerWidth < 768 ? '16px 20px' : '20px 24px',
+      borderRadius: '16px',
+      background: 'rgba(255, 255, 255, 0.02)',
+      backdropFilter: 'blur(20px)',
+      WebkitBackdropFilter: 'blur(20px)',
+      border: '1px solid rgba(255, 255, 255, 0.08)',
+      textAlign: 'center'
+    }}>
+      <h5 style={{
+        color: '#E0CDA9',
+        fontSize: '14px',
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        letterSpacing: '0.1em',
+        marginBottom: '12px',
+        fontFamily: 'Fira Code, monospace'
+      }}>
+        Harmonic Mixing
+      </h5>
+      <p style={{
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: '0.85rem',
+        lineHeight: '1.6',
+        margin: '0 0 16px 0'
+      }}>
+        {!seedCode
+          ? `"${seed.name}" has no detected key, so the wheel has nothing to anchor on.`
+          : proximityPick && harmonicPick && proximityPick.id === harmonicPick.id
+            ? `"${seed.name}" sits at ${formatCamelot(seedCode)} (${keyName(seed)}). Its nearest neighbour by sound is also a clean mix.`
+            : `"${seed.name}" sits at ${formatCamelot(seedCode)} (${keyName(seed)}). Raw feature proximity would play "${proximityPick?.name ?? '—'}" (${formatCamelot(proximityPick ? toCamelot(proximityPick) : null)}, ${RELATION_LABELS[proximityPick ? relationTo(proximityPick) : 'unknown']}); the wheel picks "${harmonicPick?.name ?? '—'}" (${formatCamelot(harmonicPick ? toCamelot(harmonicPick) : null)}).`}
+      </p>
+
+      <ol style={{
+        listStyle: 'none',
+        padding: 0,
+        margin: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px'
+      }}>
+        {recommendations.slice(0, 5).map(item => {
+          const relation = relationTo(item.track)
+          return (
+            <li key={item.track.id} style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              gap: '12px',
+              fontSize: '12px',
+              color: 'rgba(255, 255, 255, 0.7)'
+            }}>
+              <span style={{ textAlign: 'left' }}>
+                {item.rank}. {item.track.name} — {item.track.artist}
+              </span>
+              <span style={{
+                color: COMPATIBLE.includes(relation) ? '#E0CDA9' : 'rgba(184, 184, 184, 0.6)',
+                fontFamily: 'Fira Code, monospace',
+                whiteSpace: 'nowrap'
+              }}>
+                {formatCamelot(toCamelot(item.track))} · {RELATION_LABELS[relation]}
+              </span>
+            </li>
+          )
+        })}
+      </ol>
+
+      {seedCode && nearest.length > 0 && (
+        <p style={{
+          color: 'rgba(255, 255, 255, 0.7)',
+          fontSize: '0.8rem',
+          lineHeight: '1.6',
+          margin: '16px 0 0 0'
+        }}>
+          Of the {nearest.length} tracks closest by audio features, {nearestCompatible} mix cleanly in key. Feature proximity can't hear harmony.
+        </p>
+      )}
+    </div>
+  )
+}
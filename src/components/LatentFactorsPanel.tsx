@@ -0,0 +1,192 @@
+import type { FactorModel, FactorizationMethod, FeatureKey, Track } from '../types'
+
+interface LatentFactorsPanelProps {
+  model: FactorModel | null                         // Null while training
+  track: Track                                      // Track whose factors are shown
+  keys: FeatureKey[]                                // Audio features to compare against
+  correlations: number[][]                          // Dimension × feature Pearson r
+  featureValue: (track: Track, key: FeatureKey) => number // Min-max value, 0-1
+  interactionCount: number                          // Interactions the model was trained on
+  yourCount: number                                 // Of which yours
+  method: FactorizationMethod
+  onMethodChange: (method: FactorizationMethod) => void
+}
+
+const METHODS: Array<{ id: FactorizationMethod; label: string; description: string }> = [
+  { id: 'als', label: 'ALS', description: 'Alternating least squares over every cell, weighted by confidence' },
+  { id: 'bpr', label: 'BPR', description: 'Bayesian personalized ranking: preferred tracks above the rest, by SGD' }
+]
+
+const pillStyle = (active: boolean) => ({
+  padding: '6px 14px',
+  borderRadius: '999px',
+  border: active ? '1px solid #E0CDA9' : '1px solid rgba(255, 255, 255, 0.15)',
+  background: active ? 'rgba(224, 205, 169, 0.1)' : 'rgba(255, 255, 255, 0.03)',
+  color: active ? '#E0CDA9' : 'rgba(255, 255, 255, 0.7)',
+  fontSize: '12px',
+  fontFamily: 'Fira Code, monospace',
+  cursor: 'pointer',
+  transition: 'all 0.2s ease'
+})
+
+const columnTitle = {
+  fontSize: '11px',
+  color: '#E0CDA9',
+  letterSpacing: '0.15em',
+  textTransform: 'uppercase' as const,
+  fontFamily: 'Fira Code, monospace',
+  marginBottom: '8px'
+}
+
+// One labelled bar; signed bars grow from the middle
+function Bar({ label, value, signed }: { label: string; value: number; signed: boolean }) {
+  const width = Math.min(1, Math.abs(value)) * (signed ? 50 : 100)
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '10px', fontFamily: 'Fira Code, monospace', color: '#B8B8B8' }}>
+      <span style={{ width: '96px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{label}</span>
+      <div style={{ flex: 1, height: '6px', borderRadius: '3px', background: 'rgba(255, 255, 255, 0.06)', position: 'relative' }}>
+        <div style={{
+          position: 'absolute',
+          left: signed ? (value >= 0 ? '50%' : `${50 - width}%`) : 0,
+          width: `${width}%`,
+          height: '100%',
+          borderRadius: '3px',
+          background: signed && value < 0 ? '#C08497' : '#E0CDA9'
+        }} />
+      </div>
+      <span style={{ width: '40px', textAlign: 'right', color: '#EAEAEA' }}>{value.toFixed(2)}</span>
+    </div>
+  )
+}
+
+export default function LatentFactorsPanel({
+  model,
+  track,
+  keys,
+  correlations,
+  featureValue,
+  interactionCount,
+  yourCount,
+  method,
+  onMethodChange
+}: LatentFactorsPanelProps) {
+  const factors = model?.items[track.id] ?? null
+  // Scale factors so the largest fills half the bar
+  const scale = Math.max(0.0001, ...(factors ?? []).map(Math.abs))
+
+  return (
+    <div style={{
+      maxWidth: window.innerWidth < 768 ? '90vw' : '600px',
+      margin: '32px auto 0 auto',
+      padding: window.innerWidth < 768 ? '16px 20px' : '20px 24px',
+      borderRadius: '16px',
+      background: 'rgba(255, 255, 255, 0.02)',
+      backdropFilter: 'blur(20px)',
+      WebkitBackdropFilter: 'blur(20px)',
+      border: '1px solid rgba(255, 255, 255, 0.08)',
+      textAlign: 'center'
+    }}>
+      <h5 style={{
+        color: '#E0CDA9',
+        fontSize: '14px',
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        letterSpacing: '0.1em',
+        marginBottom: '12px',
+        fontFamily: 'Fira Code, monospace'
+      }}>
+        Learned Taste vs. Engineered Features
+      </h5>
+      <p style={{
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: '0.85rem',
+        lineHeight: '1.6',
+        margin: '0 0 16px 0'
+      }}>
+        The model never sees audio features. It learns a few latent dimensions per track from who played, skipped and liked what — your clicks on the track cards plus the synthetic listeners — and recommends by the dot product with your own vector.
+      </p>
+
+      <div style={{ display: 'flex', justifyContent: 'center', gap: '8px', marginBottom: '8px' }}>
+        {METHODS.map(option => (
+          <button
+            key={option.id}
+            onClick={() => onMethodChange(option.id)}
+            title={option.description}
+            style={pillStyle(method === option.id)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <div style={{ fontSize: '11px', color: 'rgba(184, 184, 184, 0.6)', fontFamily: 'Fira Code, monospace', marginBottom: '16px' }}>
+        {interactionCount} interactions ({yourCount} yours)
+        {model && ` · ${model.factors} dimensions · loss ${model.loss[model.loss.length - 1]?.toFixed(3) ?? '—'}`}
+        {!model && ' · training…'}
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '24px', textAlign: 'left' }}>
+        <div style={{ flex: 1, minWidth: '220px' }}>
+          <div style={columnTitle}>Latent factors</div>
+          {factors ? (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+              {factors.map((value, d) => <Bar key={d} label={`dim ${d + 1}`} value={value / scale} signed />)}
+            </div>
+          ) : (
+            <div style={{ fontSize: '0.8rem', color: 'rgba(255, 255, 255, 0.7)', lineHeight: '1.6' }}>
+              {model ? 'Nobody has played this track yet, so it has no factors.' : 'Training…'}
+            </div>
+          )}
+        </div>
+        <div style={{ flex: 1, minWidth: '220px' }}>
+          <div style={columnTitle}>Spotify audio features</div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+            {keys.map(key => <Bar key={key} label={key} value={featureValue(track, key)} signed={false} />)}
+          </div>
+        </div>
+      </div>
+
+      {/* How much each learned dimension tracks each engineered feature */}
+      {model && correlations.length > 0 && (
+        <div style={{ marginTop: '20px', overflowX: 'auto' }}>
+          <div style={{ ...columnTitle, textAlign: 'left' }}>Correlation across tracks</div>
+          <table style={{ borderCollapse: 'collapse', fontSize: '10px', fontFamily: 'Fira Code, monospace', color: '#B8B8B8' }}>
+            <thead>
+              <tr>
+                <th />
+                {keys.map(key => (
+                  <th key={key} style={{ padding: '2px 4px', fontWeight: 'normal', whiteSpace: 'nowrap' }}>{key.slice(0, 5)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {correlations.map((row, d) => (
+                <tr key={d}>
+                  <td style={{ padding: '2px 6px 2px 0', whiteSpace: 'nowrap' }}>dim {d + 1}</td>
+                  {row.map((r, k) => (
+                    <td
+                      key={keys[k]}
+                      title={`r = ${r.toFixed(2)}`}
+                      style={{
+                        padding: '2px 4px',
+                        textAlign: 'center',
+                        color: Math.abs(r) > 0.5 ? '#0A0A0A' : '#EAEAEA',
+                        background: r >= 0
+                          ? `rgba(224, 205, 169, ${Math.abs(r)})`
+                          : `rgba(192, 132, 151, ${Math.abs(r)})`
+                      }}
+                    >
+                      {r.toFixed(1)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div style={{ fontSize: '11px', color: 'rgba(184, 184, 184, 0.6)', marginTop: '8px', textAlign: 'left' }}>
+            Gold follows a feature, rose runs against it; pale cells are taste the features don't describe.
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+import type { BeamCandidate } from '../types'
+
+interface LookaheadPanelProps {
+  greedy: BeamCandidate | null
+  planned: BeamCandidate | null
+  beamWidth: number
+  depth: number
+  onBeamWidthChange: (value: number) => void
+  onDepthChange: (value: number) => void
+}
+
+const renderSequence = (label: string, candidate: BeamCandidate | null, highlight: boolean) => (
+  <div style={{ textAlign: 'left' }}>
+    <div style={{
+      fontSize: '11px',
+      color: highlight ? '#E0CDA9' : '#B8B8B8',
+      letterSpacing: '0.1em',
+      textTransform: 'uppercase',
+      fontFamily: 'Fira Code, monospace',
+      marginBottom: '8px'
+    }}>
+      {label} · cost {candidate ? candidate.cost.toFixed(3) : '—'}
+    </div>
+    <ol style={{ margin: 0, paddingLeft: '18px', fontSize: '12px', color: 'rgba(255, 255, 255, 0.7)' }}>
+      {candidate?.sequence.map((track, index) => (
+        <li key={track.id} style={{ marginBottom: '4px', color: index === 0 ? '#EAEAEA' : undefined }}>
+          {track.name} — {track.artist}
+        </li>
+      ))}
+    </ol>
+  </div>
+)
+
+export default function LookaheadPanel({
+  greedy,
+  planned,
+  beamWidth,
+  depth,
+  onBeamWidthChange,
+  onDepthChange
+}: LookaheadPanelProps) {
+  const sameChoice = greedy?.sequence[0]?.id === planned?.sequence[0]?.id
+  const controls = [
+    { label: 'Beam width', value: beamWidth, min: 1, max: 10, onChange: onBeamWidthChange },
+    { label: 'Lookahead', value: depth, min: 1, max: 6, onChange: onDepthChange }
+  ]
+
+  return (
+    <div style={{
+      maxWidth: window.innerWidth < 768 ? '90vw' : '600px',
+      margin: '32px auto 0 auto',
+      padding: window.innerWidth < 768 ? '16px 20px' : '20px 24px',
+      borderRadius: '16px',
+      background: 'rgba(255, 255, 255, 0.02)',
+      backdropFilter: 'blur(20px)',
+      WebkitBackdropFilter: 'blur(20px)',
+      border: '1px solid rgba(255, 255, 255, 0.08)',
+      textAlign: 'center'
+    }}>
+      <h5 style={{
+        color: '#E0CDA9',
+        fontSize: '14px',
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        letterSpacing: '0.1em',
+        marginBottom: '12px',
+        fontFamily: 'Fira Code, monospace'
+      }}>
+        Looking Ahead
+      </h5>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '16px' }}>
+        {controls.map(control => (
+          <div key={control.label} style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: '12px',
+            fontSize: '12px',
+            color: '#B8B8B8',
+            fontFamily: 'Fira Code, monospace'
+          }}>
+            <span style={{ width: '90px', textAlign: 'right' }}>{control.label}:</span>
+            <input
+              type="range"
+              min={control.min}
+              max={control.max}
+              step="1"
+              value={control.value}
+              onChange={(e) => control.onChange(Number(e.target.value))}
+              style={{ width: '160px', cursor: 'pointer' }}
+            />
+            <span style={{ color: '#E0CDA9', width: '20px' }}>{control.value}</span>
+          </div>
+        ))}
+      </div>
+
+      <p style={{
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: '0.85rem',
+        lineHeight: '1.6',
+        margin: '0 0 16px 0'
+      }}>
+        {sameChoice
+          ? `Looking ${depth} tracks ahead doesn't change the next pick — the greedy hop is also the start of the best sequence found.`
+          : `Greedy grabs "${greedy?.sequence[0]?.name ?? '—'}" because it's the cheapest single step. Scoring ${depth}-track sequences picks "${planned?.sequence[0]?.name ?? '—'}" instead, accepting a worse first hop for a cheaper path overall.`}
+      </p>
+
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: window.innerWidth < 768 ? '1fr' : '1fr 1fr',
+        gap: '20px'
+      }}>
+        {renderSequence('Greedy, step by step', greedy, false)}
+        {renderSequence(`Beam search (width ${beamWidth})`, planned, true)}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+import type { Playlist } from '../types'
+import { formatAdjustment } from '../lib/engine'
+
+interface PlaylistChainProps {
+  playlist: Playlist
+  title: string
+  hopLabel: string
+  length?: number
+  maxLength?: number
+  onLengthChange?: (length: number) => void
+}
+
+export default function PlaylistChain({
+  playlist,
+  title,
+  hopLabel,
+  length,
+  maxLength = 20,
+  onLengthChange
+}: PlaylistChainProps) {
+  const maxDrift = Math.max(0.0001, ...playlist.steps.map(step => step.drift))
+
+  return (
+    <div style={{
+      maxWidth: window.innerWidth < 768 ? '90vw' : '600px',
+      margin: '32px auto 0 auto',
+      padding: window.innerWidth < 768 ? '16px 20px' : '20px 24px',
+      borderRadius: '16px',
+      background: 'rgba(255, 255, 255, 0.02)',
+      backdropFilter: 'blur(20px)',
+      WebkitBackdropFilter: 'blur(20px)',
+      border: '1px solid rgba(255, 255, 255, 0.08)',
+      textAlign: 'center'
+    }}>
+      <h5 style={{
+        color: '#E0CDA9',
+        fontSize: '14px',
+        fontWeight: '600',
+        textTransform: 'uppercase',
+        letterSpacing: '0.1em',
+        marginBottom: '12px',
+        fontFamily: 'Fira Code, monospace'
+      }}>
+        {title}
+      </h5>
+
+      {onLengthChange && length !== undefined && (
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: '12px',
+          marginBottom: '16px',
+          fontSize: '12px',
+          color: '#B8B8B8',
+          fontFamily: 'Fira Code, monospace'
+        }}>
+          <span>Tracks:</span>
+          <input
+            type="range"
+            min="2"
+            max={maxLength}
+            step="1"
+            value={length}
+            onChange={(e) => onLengthChange(Number(e.target.value))}
+            style={{ width: '160px', cursor: 'pointer' }}
+          />
+          <span style={{ color: '#E0CDA9' }}>{length}</span>
+        </div>
+      )}
+
+      <ol style={{
+        listStyle: 'none',
+        padding: 0,
+        margin: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px'
+      }}>
+        {playlist.steps.map(step => (
+          <li key={step.track.id} style={{
+            display: 'grid',
+            gridTemplateColumns: '24px 1fr auto',
+            alignItems: 'center',
+            gap: '12px',
+            fontSize: '12px',
+            color: 'rgba(255, 255, 255, 0.7)',
+            textAlign: 'left'
+          }}>
+            <span style={{ color: '#E0CDA9', fontFamily: 'Fira Code, monospace' }}>
+              {step.position + 1}
+            </span>
+            <div>
+              <div style={{ color: '#EAEAEA' }}>{step.track.name}</div>
+              <div style={{ color: '#B8B8B8', fontSize: '11px' }}>{step.track.artist}</div>
+              <div style={{
+                marginTop: '4px',
+                height: '3px',
+                borderRadius: '2px',
+                background: 'rgba(255, 255, 255, 0.08)',
+                overflow: 'hidden'
+              }}>
+                <div style={{
+                  width: `${(step.drift / maxDrift) * 100}%`,
+                  height: '100%',
+                  background: 'linear-gradient(90deg, #E0CDA9, #F8E39E)'
+                }} />
+              </div>
+            </div>
+            <div style={{
+              fontFamily: 'Fira Code, monospace',
+              fontSize: '11px',
+              textAlign: 'right',
+              whiteSpace: 'nowrap'
+            }}>
+              <div>{step.position === 0 ? 'start' : `+${step.hopDistance.toFixed(3)}`}</div>
+              <div style={{ color: 'rgba(184, 184, 184, 0.6)' }}>drift {step.drift.toFixed(3)}</div>
+              {step.tempo && (
+                <div
+                  title={step.tempo.meterMatch ? undefined : 'Time signatures differ'}
+                  style={{ color: step.tempo.compatible && step.tempo.meterMatch ? '#E0CDA9' : 'rgba(184, 184, 184, 0.6)' }}
+                >
+                  {step.tempo.ratio} · {formatAdjustment(step.tempo.adjustment)} → {Math.round(step.tempo.targetBpm)} BPM
+                  {!step.tempo.meterMatch && ` · ${step.track.time_signature}/4`}
+                </div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <div style={{
+        marginTop: '16px',
+        fontSize: '12px',
+        color: '#B8B8B8',
+        fontFamily: 'Fira Code, monospace'
+      }}>
+        {hopLabel} · total {playlist.totalCost.toFixed(3)} · final drift {(playlist.steps[playlist.steps.length - 1]?.drift ?? 0).toFixed(3)}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+interface PopularitySeries {
+  label: string
+  color: string
+  histogram: number[] // Share of tracks per popularity bucket
+  tailShare: number   // Share of tracks in the long tail
+}
+
+interface PopularityControlsProps {
+  ipw: boolean
+  boost: number
+  headShare: number
+  threshold: number // Lowest popularity still counted as head
+  series: PopularitySeries[]
+  onIpwChange: (ipw: boolean) => void
+  onBoostChange: (boost: number) => void
+  onHeadShareChange: (headShare: number) => void
+}
+
+const CHART_HEIGHT = 100
+const BAR_GAP = 2
+
+export default function PopularityControls({
+  ipw,
+  boost,
+  headShare,
+  threshold,
+  series,
+  onIpwChange,
+  onBoostChange,
+  onHeadShareChange
+}: PopularityControlsProps) {
+  const bins = Math.max(1, ...series.map(s => s.histogram.length))
+  const maxShare = Math.max(0.0001, ...series.flatMap(s => s.histogram))
+  const groupWidth = 100 / bins
+  const barWidth = (groupWidth - BAR_GAP) / Math.max(1, series.length)
+  const sliders = [
+    { label: 'Long-tail boost', value: boost, min: 0, max: 1, step: 0.05, display: boost.toFixed(2), onChange: onBoostChange },
+    { label: 'Head size', value: headShare, min: 0.05, max: 0.5, step: 0.05, display: `${(headShare * 100).toFixed(0)}%`, onChange: onHeadShareChange }
+  ]
+
+  return (
+    <div style={{
+      maxWidth: '480px',
+      margin: '24px auto 0 auto',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      gap: '12px',
+      fontFamily: 'Fira Code, monospace'
+    }}>
+      <div style={{ fontSize: '14px', color: '#B8B8B8', fontWeight: '500', fontFamily: 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif' }}>
+        Popularity bias:
+      </div>
+      <button
+        onClick={() => onIpwChange(!ipw)}
+        title="Divide relevance by how likely each track was to be exposed, estimated from popularity"
+        style={{
+          padding: '8px 16px',
+          borderRadius: '999px',
+          border: ipw ? '1px solid #E0CDA9' : '1px solid rgba(255, 255, 255, 0.15)',
+          background: ipw ? 'rgba(224, 205, 169, 0.1)' : 'rgba(255, 255, 255, 0.03)',
+          color: ipw ? '#E0CDA9' : 'rgba(255, 255, 255, 0.7)',
+          fontSize: '13px',
+          fontFamily: 'Fira Code, monospace',
+          cursor: 'pointer',
+          transition: 'all 0.2s ease'
+        }}
+      >
+        Inverse-propensity weighting: {ipw ? 'on' : 'off'}
+      </button>
+
+      {sliders.map(slider => (
+        <div key={slider.label} style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '12px',
+          fontSize: '12px',
+          color: '#B8B8B8'
+        }}>
+          <span style={{ width: '110px', textAlign: 'right' }}>{slider.label}</span>
+          <input
+            type="range"
+            min={slider.min}
+            max={slider.max}
+            step={slider.step}
+            value={slider.value}
+            onChange={(e) => slider.onChange(Number(e.target.value))}
+            style={{ width: '160px', cursor: 'pointer' }}
+          />
+          <span style={{ color: '#E0CDA9', width: '40px' }}>{slider.display}</span>
+        </div>
+      ))}
+
+      {/* Popularity distribution: catalog vs. recommendations */}
+      <div style={{ width: '100%' }}>
+        <svg
+          viewBox={`0 0 100 ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          style={{ width: '100%', height: `${CHART_HEIGHT}px`, display: 'block' }}
+        >
+          {threshold < 100 && (
+            <line
+              x1={threshold}
+              x2={threshold}
+              y1="0"
+              y2={CHART_HEIGHT}
+              stroke="rgba(255, 255, 255, 0.3)"
+              strokeDasharray="2 2"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          {series.map((s, seriesIndex) =>
+            s.histogram.map((share, bin) => {
+              const height = (share / maxShare) * (CHART_HEIGHT - 4)
+              return (
+                <rect
+                  key={`${s.label}-${bin}`}
+                  x={bin * groupWidth + BAR_GAP / 2 + seriesIndex * barWidth}
+                  y={CHART_HEIGHT - height}
+                  width={barWidth}
+                  height={height}
+                  fill={s.color}
+                />
+              )
+            })
+          )}
+        </svg>
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          fontSize: '10px',
+          color: 'rgba(184, 184, 184, 0.6)',
+          marginTop: '4px'
+        }}>
+          <span>popularity 0</span>
+          <span>┆ head ≥ {threshold}</span>
+          <span>100</span>
+        </div>
+        <div style={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          justifyContent: 'center',
+          gap: '12px',
+          marginTop: '8px',
+          fontSize: '11px',
+          color: '#B8B8B8'
+        }}>
+          {series.map(s => (
+            <span key={s.label}>
+              <span style={{ color: s.color }}>■</span> {s.label} · {(s.tailShare * 100).toFixed(0)}% tail
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+interface TempoControlsProps {
+  enabled: boolean
+  tolerance: number // Pitch-shift tolerance as a fraction
+  onEnabledChange: (enabled: boolean) => void
+  onToleranceChange: (tolerance: number) => void
+}
+
+export default function TempoControls({
+  enabled,
+  tolerance,
+  onEnabledChange,
+  onToleranceChange
+}: TempoControlsProps) {
+  return (
+    <div style={{
+      maxWidth: '480px',
+      margin: '32px auto 0 auto',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      gap: '12px',
+      fontFamily: 'Fira Code, monospace'
+    }}>
+      <button
+        onClick={() => onEnabledChange(!enabled)}
+        title="Add BPM-ratio and time-signature cost to every hop"
+        style={{
+          padding: '8px 16px',
+          borderRadius: '999px',
+          border: enabled ? '1px solid #E0CDA9' : '1px solid rgba(255, 255, 255, 0.15)',
+          background: enabled ? 'rgba(224, 205, 169, 0.1)' : 'rgba(255, 255, 255, 0.03)',
+          color: enabled ? '#E0CDA9' : 'rgba(255, 255, 255, 0.7)',
+          fontSize: '13px',
+          fontFamily: 'Fira Code, monospace',
+          cursor: 'pointer',
+          transition: 'all 0.2s ease'
+        }}
+      >
+        Tempo-aware transitions: {enabled ? 'on' : 'off'}
+      </button>
+
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        fontSize: '12px',
+        color: '#B8B8B8',
+        opacity: enabled ? 1 : 0.4
+      }}>
+        <span>Pitch tolerance</span>
+        <input
+          type="range"
+          min="0.01"
+          max="0.16"
+          step="0.01"
+          value={tolerance}
+          disabled={!enabled}
+          onChange={(e) => onToleranceChange(Number(e.target.value))}
+          style={{ width: '160px', cursor: enabled ? 'pointer' : 'default' }}
+        />
+        <span style={{ color: '#E0CDA9' }}>±{(tolerance * 100).toFixed(0)}%</span>
+      </div>
+      <div style={{ fontSize: '11px', color: 'rgba(184, 184, 184, 0.6)', textAlign: 'center' }}>
+        70 and 140 BPM mix as 1:2 · ratios 1:1, 1:2, 2:1, 3:4, 4:3 · mismatched time signatures cost extra
+      </div>
+    </div>
+  )
+}
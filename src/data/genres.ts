@@ -0,0 +1,119 @@
+// Genre data: which genre each known artist belongs to
+import type { Genre } from '../types'
+
+// Every genre, in the order filters and legends list them
+export const GENRES: Genre[] = [
+  'pop', 'electronic', 'rock', 'hip-hop', 'indie', 'jazz', 'classical',
+  'country', 'reggae', 'blues', 'r&b', 'latin', 'k-pop', 'world', 'unknown'
+]
+
+export const GENRE_COLORS: Record<Genre, string> = {
+  pop: '#E0CDA9',
+  electronic: '#7B9ACC',
+  rock: '#C08497',
+  'hip-hop': '#F2A65A',
+  indie: '#8FB996',
+  jazz: '#B5A8D9',
+  classical: '#9DB4C0',
+  country: '#D4A5A5',
+  reggae: '#A3C585',
+  blues: '#6C8EBF',
+  'r&b': '#D98FB5',
+  latin: '#E8B86D',
+  'k-pop': '#E59CC4',
+  world: '#C2A878',
+  unknown: '#6B6B6B'
+}
+
+// Artist name -> genre, for the search artists and the sample catalog
+export const ARTIST_GENRES: Record<string, Genre> = {
+  // Pop (20 artists)
+  'Taylor Swift': 'pop', 'Ariana Grande': 'pop', 'Billie Eilish': 'pop', 'Olivia Rodrigo': 'pop', 'Dua Lipa': 'pop',
+  'Ed Sheeran': 'pop', 'Harry Styles': 'pop', 'Justin Bieber': 'pop', 'Selena Gomez': 'pop', 'Miley Cyrus': 'pop',
+  'Lady Gaga': 'pop', 'Katy Perry': 'pop', 'Rihanna': 'pop', 'Beyoncé': 'pop', 'Adele': 'pop',
+  'Bruno Mars': 'pop', 'The Weeknd': 'pop', 'Justin Timberlake': 'pop', 'P!nk': 'pop', 'Maroon 5': 'pop',
+
+  // Electronic/Dance (20 artists)
+  'Calvin Harris': 'electronic', 'The Chainsmokers': 'electronic', 'Marshmello': 'electronic', 'Skrillex': 'electronic', 'Deadmau5': 'electronic',
+  'David Guetta': 'electronic', 'Martin Garrix': 'electronic', 'Avicii': 'electronic', 'Swedish House Mafia': 'electronic', 'Tiësto': 'electronic',
+  'Armin van Buuren': 'electronic', 'Hardwell': 'electronic', 'Afrojack': 'electronic', 'Steve Aoki': 'electronic', 'Diplo': 'electronic',
+  'Flume': 'electronic', 'Odesza': 'electronic', 'Porter Robinson': 'electronic', 'Madeon': 'electronic', 'Zedd': 'electronic',
+
+  // Rock (25 artists)
+  'The Beatles': 'rock', 'Queen': 'rock', 'Led Zeppelin': 'rock', 'Pink Floyd': 'rock', 'AC/DC': 'rock',
+  'Rolling Stones': 'rock', 'The Who': 'rock', 'Nirvana': 'rock', 'Guns N Roses': 'rock', 'Metallica': 'rock',
+  'U2': 'rock', 'Coldplay': 'rock', 'Radiohead': 'rock', 'Foo Fighters': 'rock', 'Red Hot Chili Peppers': 'rock',
+  'Green Day': 'rock', 'Linkin Park': 'rock', 'Pearl Jam': 'rock', 'Soundgarden': 'rock', 'Alice in Chains': 'rock',
+  'The Clash': 'rock', 'The Ramones': 'rock', 'Black Sabbath': 'rock', 'Deep Purple': 'rock', 'Jimi Hendrix': 'rock',
+
+  // Hip-Hop/Rap (25 artists)
+  'Drake': 'hip-hop', 'Kendrick Lamar': 'hip-hop', 'Travis Scott': 'hip-hop', 'Post Malone': 'hip-hop', 'Kanye West': 'hip-hop',
+  'J. Cole': 'hip-hop', 'Eminem': 'hip-hop', 'Jay-Z': 'hip-hop', 'Nas': 'hip-hop', 'Tupac': 'hip-hop',
+  'Biggie': 'hip-hop', 'Snoop Dogg': 'hip-hop', 'Dr. Dre': 'hip-hop', '50 Cent': 'hip-hop', 'Lil Wayne': 'hip-hop',
+  'Future': 'hip-hop', 'Migos': 'hip-hop', 'Cardi B': 'hip-hop', 'Nicki Minaj': 'hip-hop', 'Lil Nas X': 'hip-hop',
+  'Tyler, The Creator': 'hip-hop', 'A$AP Rocky': 'hip-hop', 'JID': 'hip-hop', 'Vince Staples': 'hip-hop', 'Anderson .Paak': 'hip-hop',
+
+  // Indie/Alternative (20 artists)
+  'Arctic Monkeys': 'indie', 'The 1975': 'indie', 'Tame Impala': 'indie', 'Lorde': 'indie', 'Phoebe Bridgers': 'indie',
+  'Vampire Weekend': 'indie', 'Arcade Fire': 'indie', 'The Strokes': 'indie', 'Interpol': 'indie', 'Modest Mouse': 'indie',
+  'Death Cab for Cutie': 'indie', 'Bon Iver': 'indie', 'Sufjan Stevens': 'indie', 'Fleet Foxes': 'indie', 'Beach House': 'indie',
+  'Mac DeMarco': 'indie', 'King Gizzard': 'indie', 'Glass Animals': 'indie', 'Alt-J': 'indie',
+
+  // Jazz (15 artists)
+  'Miles Davis': 'jazz', 'John Coltrane': 'jazz', 'Ella Fitzgerald': 'jazz', 'Billie Holiday': 'jazz', 'Duke Ellington': 'jazz',
+  'Louis Armstrong': 'jazz', 'Charlie Parker': 'jazz', 'Thelonious Monk': 'jazz', 'Dave Brubeck': 'jazz', 'Herbie Hancock': 'jazz',
+  'Chick Corea': 'jazz', 'Pat Metheny': 'jazz', 'Wynton Marsalis': 'jazz', 'Diana Krall': 'jazz', 'Norah Jones': 'jazz',
+
+  // Classical (15 artists)
+  'Ludwig van Beethoven': 'classical', 'Wolfgang Amadeus Mozart': 'classical', 'Johann Sebastian Bach': 'classical', 'Pyotr Ilyich Tchaikovsky': 'classical', 'Frédéric Chopin': 'classical',
+  'Franz Schubert': 'classical', 'Franz Liszt': 'classical', 'Richard Wagner': 'classical', 'Giuseppe Verdi': 'classical', 'Giacomo Puccini': 'classical',
+  'Claude Debussy': 'classical', 'Maurice Ravel': 'classical', 'Igor Stravinsky': 'classical', 'Antonín Dvořák': 'classical', 'Gustav Mahler': 'classical',
+
+  // Country (15 artists)
+  'Johnny Cash': 'country', 'Dolly Parton': 'country', 'Willie Nelson': 'country', 'Luke Combs': 'country', 'Chris Stapleton': 'country',
+  'Carrie Underwood': 'country', 'Miranda Lambert': 'country', 'Kacey Musgraves': 'country', 'Zac Brown Band': 'country', 'Florida Georgia Line': 'country',
+  'Tim McGraw': 'country', 'Faith Hill': 'country', 'George Strait': 'country', 'Alan Jackson': 'country', 'Garth Brooks': 'country',
+
+  // Reggae (10 artists)
+  'Bob Marley': 'reggae', 'Peter Tosh': 'reggae', 'Jimmy Cliff': 'reggae', 'UB40': 'reggae', 'Sean Paul': 'reggae',
+  'Shaggy': 'reggae', 'Damian Marley': 'reggae', 'Ziggy Marley': 'reggae', 'Burning Spear': 'reggae', 'Toots and the Maytals': 'reggae',
+
+  // Blues (10 artists)
+  'B.B. King': 'blues', 'Muddy Waters': 'blues', 'Howlin Wolf': 'blues', 'John Lee Hooker': 'blues', 'Etta James': 'blues',
+  'Robert Johnson': 'blues', 'Albert King': 'blues', 'Freddie King': 'blues', 'Stevie Ray Vaughan': 'blues', 'Buddy Guy': 'blues',
+
+  // R&B/Soul (15 artists)
+  'Marvin Gaye': 'r&b', 'Stevie Wonder': 'r&b', 'Aretha Franklin': 'r&b', 'Ray Charles': 'r&b', 'Sam Cooke': 'r&b',
+  'Otis Redding': 'r&b', 'Al Green': 'r&b', 'Curtis Mayfield': 'r&b', 'James Brown': 'r&b', 'Prince': 'r&b',
+  'Michael Jackson': 'r&b', 'Whitney Houston': 'r&b', 'Luther Vandross': 'r&b', 'Anita Baker': 'r&b', 'Sade': 'r&b',
+
+  // Latin (10 artists)
+  'Shakira': 'latin', 'Ricky Martin': 'latin', 'Enrique Iglesias': 'latin', 'J Balvin': 'latin', 'Bad Bunny': 'latin',
+  'Maluma': 'latin', 'Ozuna': 'latin', 'Daddy Yankee': 'latin', 'Wisin': 'latin', 'Yandel': 'latin',
+
+  // K-Pop (10 artists)
+  'BTS': 'k-pop', 'BLACKPINK': 'k-pop', 'TWICE': 'k-pop', 'Red Velvet': 'k-pop', 'EXO': 'k-pop',
+  'NCT': 'k-pop', 'Stray Kids': 'k-pop', 'ITZY': 'k-pop', 'aespa': 'k-pop', 'NewJeans': 'k-pop',
+
+  // World Music (10 artists)
+  'Youssou N\'Dour': 'world', 'Salif Keita': 'world', 'Fela Kuti': 'world', 'Buena Vista Social Club': 'world', 'Ravi Shankar': 'world',
+  'Ali Farka Touré': 'world', 'Amadou & Mariam': 'world', 'Tinariwen': 'world', 'Seun Kuti': 'world', 'Bombino': 'world',
+
+  // Sample catalog (11 artists)
+  'ABBA': 'pop', 'Eagles': 'rock', 'Guns N\' Roses': 'rock', 'John Lennon': 'rock', 'Mark Ronson': 'pop',
+  'Luis Fonsi': 'latin', 'Lewis Capaldi': 'pop', 'The Kid LAROI': 'pop', 'Doja Cat': 'pop', '24kGoldn': 'hip-hop',
+  'Megan Thee Stallion': 'hip-hop'
+}
+
+/**
+ * Genre of an artist credit. Collaborations ("A ft. B", "A & B") take the
+ * first credited artist with a known genre; 'unknown' when none is listed.
+ */
+export function genreForArtist(artist: string): Genre {
+  const names = [artist, ...artist.split(/\s+(?:ft\.|feat\.|&)\s+|,\s+/)]
+  for (const name of names) {
+    const genre = ARTIST_GENRES[name.trim()]
+    if (genre) return genre
+  }
+  return 'unknown'
+}
@@ -0,0 +1,80 @@
+// Playlist shape targeting: fit a sequence of tracks to a target curve
+import type { ArcFit, FeatureKey, Normalizer, Track } from '../../types'
+
+export interface ArcOptions {
+  key: FeatureKey
+  targets: number[]        // Target value per playlist position, in normalized 0-1 space
+  normalizer?: Normalizer  // Ideally min-max, so values share the targets' 0-1 scale
+  smoothness?: number      // Weight on the jump between neighbouring tracks
+  beamWidth?: number       // Partial sequences kept per position
+}
+
+// Named curves, as evenly spaced control points over the playlist
+export const ARC_PRESETS: Array<{ id: string; label: string; points: number[] }> = [
+  { id: 'arc', label: 'Warm-up → Peak → Cool-down', points: [0.25, 0.55, 0.9, 0.55, 0.25] },
+  { id: 'lift', label: 'Slow Lift', points: [0.15, 0.3, 0.5, 0.7, 0.85] },
+  { id: 'wind-down', label: 'Wind Down', points: [0.85, 0.7, 0.5, 0.3, 0.15] },
+  { id: 'steady', label: 'Steady', points: [0.5, 0.5, 0.5, 0.5, 0.5] }
+]
+
+/**
+ * Sample a curve given by evenly spaced control points at `length` positions,
+ * interpolating linearly between neighbouring points.
+ */
+export function interpolateCurve(points: number[], length: number): number[] {
+  if (length <= 0 || points.length === 0) return []
+  if (points.length === 1 || length === 1) return Array.from({ length }, () => points[0])
+
+  return Array.from({ length }, (_, position) => {
+    const x = (position / (length - 1)) * (points.length - 1)
+    const left = Math.floor(x)
+    const right = Math.min(left + 1, points.length - 1)
+    return points[left] + (points[right] - points[left]) * (x - left)
+  })
+}
+
+/**
+ * Pick the sequence of distinct tracks whose values on one feature best
+ * follow the target curve.
+ *
+ * Cost per position is the miss from its target plus `smoothness` times the
+ * jump from the previous track, so the playlist follows the shape without
+ * lurching. Beam search keeps the `beamWidth` cheapest partial sequences
+ * after each position.
+ */
+export function fitArc(tracks: Track[], options: ArcOptions): ArcFit {
+  const { key, targets, normalizer, smoothness = 0.25, beamWidth = 8 } = options
+  const valueOf = (track: Track) => normalizer ? normalizer.normalize(key, track[key]) : track[key]
+  const length = Math.min(targets.length, tracks.length)
+
+  let beam: Array<{ order: number[]; cost: number }> = [{ order: [], cost: 0 }]
+  for (let position = 0; position < length; position++) {
+    const expanded: Array<{ order: number[]; cost: number }> = []
+    beam.forEach(partial => {
+      const previous = partial.order.length > 0 ? valueOf(tracks[partial.order[partial.order.length - 1]]) : null
+      tracks.forEach((track, index) => {
+        if (partial.order.includes(index)) return
+        const value = valueOf(track)
+        const jump = previous === null ? 0 : Math.abs(value - previous)
+        expanded.push({
+          order: [...partial.order, index],
+          cost: partial.cost + Math.abs(value - targets[position]) + smoothness * jump
+        })
+      })
+    })
+    beam = expanded.sort((a, b) => a.cost - b.cost).slice(0, beamWidth)
+  }
+
+  const best = beam[0]?.order ?? []
+  const steps = best.map((index, position) => ({
+    track: tracks[index],
+    position,
+    target: targets[position],
+    value: valueOf(tracks[index])
+  }))
+  const error = steps.length === 0
+    ? 0
+    : steps.reduce((sum, step) => sum + Math.abs(step.value - step.target), 0) / steps.length
+
+  return { steps, error }
+}
@@ -0,0 +1,134 @@
+// Multi-armed bandits: learn which tracks land from like/skip feedback
+import type { BanditChoice, BanditPolicy, BanditState, Listener, Track } from '../../types'
+
+export interface BanditOptions {
+  epsilon?: number // Share of random picks under epsilon-greedy
+}
+
+export interface SimulationOptions extends BanditOptions {
+  policy: BanditPolicy
+  rounds?: number
+  random: () => number
+}
+
+// Average reward of an arm so far, 0 before its first pull
+const meanReward = (pulls: number, reward: number) => pulls === 0 ? 0 : reward / pulls
+
+// Index of the largest value, first one wins ties
+function argmax(values: number[]): number {
+  let best = 0
+  values.forEach((value, index) => {
+    if (value > values[best]) best = index
+  })
+  return best
+}
+
+// Gamma(shape, 1) for whole-number shapes: a sum of exponentials
+function sampleGamma(shape: number, random: () => number): number {
+  let total = 0
+  for (let i = 0; i < shape; i++) total -= Math.log(1 - random())
+  return total
+}
+
+// Beta(a, b) draw; like/skip counts keep both parameters whole numbers
+function sampleBeta(a: number, b: number, random: () => number): number {
+  const x = sampleGamma(a, random)
+  const y = sampleGamma(b, random)
+  return x / (x + y)
+}
+
+/**
+ * Fresh bandit with one arm per track and no feedback yet.
+ */
+export function createBandit(tracks: Track[]): BanditState {
+  return {
+    arms: tracks.map(track => ({ track, pulls: 0, reward: 0 })),
+    history: []
+  }
+}
+
+/**
+ * Pick the next arm to play.
+ *
+ * - epsilon-greedy: a random arm with probability ε, otherwise the best mean
+ * - ucb1: every arm once, then mean + √(2 ln t / n), optimism for rarely played arms
+ * - thompson: a draw from each arm's Beta(likes + 1, skips + 1) posterior, highest wins
+ *
+ * A pick counts as explored when it isn't the arm with the best mean so far.
+ */
+export function selectArm(
+  state: BanditState,
+  policy: BanditPolicy,
+  random: () => number,
+  options: BanditOptions = {}
+): BanditChoice | null {
+  const { arms } = state
+  if (arms.length === 0) return null
+  const { epsilon = 0.1 } = options
+  const greedy = argmax(arms.map(arm => meanReward(arm.pulls, arm.reward)))
+
+  let index: number
+  if (policy === 'epsilon-greedy') {
+    index = random() < epsilon ? Math.floor(random() * arms.length) : greedy
+  } else if (policy === 'ucb1') {
+    const unplayed = arms.findIndex(arm => arm.pulls === 0)
+    const total = arms.reduce((sum, arm) => sum + arm.pulls, 0)
+    index = unplayed >= 0
+      ? unplayed
+      : argmax(arms.map(arm => meanReward(arm.pulls, arm.reward) + Math.sqrt((2 * Math.log(total)) / arm.pulls)))
+  } else {
+    index = argmax(arms.map(arm => sampleBeta(arm.reward + 1, arm.pulls - arm.reward + 1, random)))
+  }
+
+  return { index, explored: index !== greedy }
+}
+
+/**
+ * Record feedback for a choice.
+ * Returns a new state; the old one is left untouched.
+ */
+export function updateBandit(state: BanditState, choice: BanditChoice, reward: number): BanditState {
+  const arm = state.arms[choice.index]
+  const previous = state.history[state.history.length - 1]?.cumulativeReward ?? 0
+  return {
+    arms: state.arms.map((a, index) =>
+      index === choice.index ? { ...a, pulls: a.pulls + 1, reward: a.reward + reward } : a
+    ),
+    history: [
+      ...state.history,
+      { trackId: arm.track.id, reward, explored: choice.explored, cumulativeReward: previous + reward }
+    ]
+  }
+}
+
+/**
+ * Chance a synthetic listener likes a track.
+ * Falls off with the distance between the track and the listener's taste,
+ * the same affinity curve their play history was sampled from.
+ */
+export function likeProbability(listener: Listener, track: Track): number {
+  const keys = Object.keys(listener.taste) as Array<keyof Listener['taste']>
+  if (keys.length === 0) return 0.5
+  const gap = keys.reduce((sum, key) => sum + Math.abs(track[key] - (listener.taste[key] ?? 0.5)), 0) / keys.length
+  return Math.exp(-(gap * gap) / (2 * 0.15 * 0.15))
+}
+
+/**
+ * Run a policy against a simulated listener who likes or skips each pick
+ * with probability likeProbability().
+ */
+export function simulateBandit(
+  tracks: Track[],
+  listener: Listener,
+  options: SimulationOptions
+): BanditState {
+  const { policy, rounds = 200, random } = options
+  let state = createBandit(tracks)
+  for (let round = 0; round < rounds; round++) {
+    const choice = selectArm(state, policy, random, options)
+    if (!choice) break
+    const reward = random() < likeProbability(listener, state.arms[choice.index].track) ? 1 : 0
+    state = updateBandit(state, choice, reward)
+  }
+  return state
+}
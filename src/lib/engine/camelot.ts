@@ -0,0 +1,101 @@
+// Harmonic mixing on the Camelot wheel, built from each track's key and mode
+import type { CamelotCode, FeatureKey, HarmonicRelation, RankedTrack, Track } from '../../types'
+import { featureDistance } from './distance'
+import { FEATURE_KEYS } from './features'
+import { createNormalizer } from './normalize'
+
+export interface HarmonicOptions {
+  keys?: FeatureKey[] // Features used to break ties between equally compatible tracks
+  limit?: number
+}
+
+const PITCH_NAMES = ['C', 'C♯', 'D', 'E♭', 'E', 'F', 'F♯', 'G', 'A♭', 'A', 'B♭', 'B']
+
+/**
+ * Camelot code for a track's key and mode, e.g. C major → 8B, A minor → 8A.
+ * Returns null when no key was detected (Spotify reports key -1).
+ *
+ * Walking the wheel's numbers steps around the circle of fifths; minor keys
+ * share a number with their relative major.
+ */
+export function toCamelot(track: Pick<Track, 'key' | 'mode'>): CamelotCode | null {
+  if (!Number.isInteger(track.key) || track.key < 0 || track.key > 11) return null
+  const minor = track.mode === 0
+  // A minor key sits on the same number as its relative major, three semitones up
+  const majorKey = minor ? (track.key + 3) % 12 : track.key
+  return {
+    number: ((majorKey * 7 + 7) % 12) + 1,
+    letter: minor ? 'A' : 'B'
+  }
+}
+
+// "8A", or "—" when the key is unknown
+export function formatCamelot(code: CamelotCode | null): string {
+  return code ? `${code.number}${code.letter}` : '—'
+}
+
+// Conventional key name, e.g. "A minor"
+export function keyName(track: Pick<Track, 'key' | 'mode'>): string {
+  if (!Number.isInteger(track.key) || track.key < 0 || track.key > 11) return 'Unknown key'
+  return `${PITCH_NAMES[track.key]} ${track.mode === 0 ? 'minor' : 'major'}`
+}
+
+/**
+ * Steps between two codes on the wheel: circular distance between numbers
+ * (0-6) plus one for switching between major and minor.
+ * 0 is the same key; 1 is a relative major/minor or a ±1 neighbour.
+ */
+export function camelotDistance(a: CamelotCode, b: CamelotCode): number {
+  const steps = Math.abs(a.number - b.number) % 12
+  return Math.min(steps, 12 - steps) + (a.letter === b.letter ? 0 : 1)
+}
+
+/**
+ * How a DJ would describe the move from one key to another.
+ */
+export function harmonicRelation(from: CamelotCode | null, to: CamelotCode | null): HarmonicRelation {
+  if (!from || !to) return 'unknown'
+  const steps = (to.number - from.number + 12) % 12
+  if (steps === 0) return from.letter === to.letter ? 'same' : 'relative'
+  if (from.letter !== to.letter) return camelotDistance(from, to) === 2 ? 'diagonal' : 'clash'
+  if (steps === 1) return 'up'
+  if (steps === 11) return 'down'
+  return 'clash'
+}
+
+// Wheel distance given to a missing key: past the farthest keyed move
+// (6 steps plus a mode change), so unknown keys always sort last
+const UNKNOWN_KEY_DISTANCE = 8
+
+/**
+ * Rank the catalog by harmonic compatibility with a seed track.
+ *
+ * Wheel distance decides the order; raw feature proximity only breaks ties
+ * between tracks the same number of steps away. `distance` is the wheel
+ * distance, so anything at 1 or below mixes cleanly. Tracks with no
+ * detected key rank after every keyed track.
+ */
+export function recommendHarmonic(
+  tracks: Track[],
+  seed: Track,
+  options: HarmonicOptions = {}
+): RankedTrack[] {
+  const { keys = FEATURE_KEYS, limit = 15 } = options
+  if (tracks.length === 0) return []
+
+  // Min-max keeps the tie-break in 0-1, below one wheel step
+  const normalizer = createNormalizer(tracks, 'minmax', keys)
+  const seedCode = toCamelot(seed)
+
+  return tracks
+    .filter(track => track.id !== seed.id)
+    .map(track => {
+      const code = toCamelot(track)
+      const distance = seedCode && code ? camelotDistance(seedCode, code) : UNKNOWN_KEY_DISTANCE
+      const proximity = Math.min(featureDistance(seed, track, keys, normalizer), 0.999)
+      return { track, score: distance + proximity, distance }
+    })
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map((item, index) => ({ ...item, rank: index + 1 }))
+}
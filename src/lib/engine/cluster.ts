@@ -0,0 +1,231 @@
+// Clustering of the track feature space: k-means with silhouette selection, and DBSCAN
+import type { ClusterScope, Clustering, FeatureKey, Normalizer, Track, TrackCluster } from '../../types'
+import { PERCEPTUAL_KEYS } from './features'
+import { createNormalizer } from './normalize'
+
+export interface ClusterOptions {
+  keys?: FeatureKey[]
+  normalizer?: Normalizer  // Ideally min-max, so every feature spans 0-1
+}
+
+export interface KMeansOptions extends ClusterOptions {
+  random: () => number
+  minK?: number
+  maxK?: number
+  iterations?: number
+}
+
+export interface DbscanOptions extends ClusterOptions {
+  eps?: number       // Neighbourhood radius in normalized feature space
+  minPoints?: number // Neighbours (including itself) a core track needs
+}
+
+// Label for tracks DBSCAN leaves out of every cluster
+export const NOISE = -1
+
+function euclidean(a: number[], b: number[]): number {
+  let total = 0
+  for (let i = 0; i < a.length; i++) total += (a[i] - b[i]) * (a[i] - b[i])
+  return Math.sqrt(total)
+}
+
+function mean(vectors: number[][], dimensions: number): number[] {
+  const sum = Array.from({ length: dimensions }, () => 0)
+  vectors.forEach(vector => vector.forEach((value, i) => { sum[i] += value }))
+  return sum.map(value => vectors.length === 0 ? 0 : value / vectors.length)
+}
+
+/**
+ * Mean silhouette over every clustered point: (b − a) / max(a, b), where a is
+ * the mean distance to its own cluster and b to the nearest other cluster.
+ * Near 1 is tight, well separated clusters; near 0 is overlap. Noise is skipped.
+ */
+export function silhouetteScore(vectors: number[][], labels: number[]): number {
+  const clusterIds = [...new Set(labels.filter(label => label !== NOISE))]
+  if (clusterIds.length < 2) return 0
+
+  let total = 0
+  vectors.forEach((vector, i) => {
+    if (labels[i] === NOISE) return
+    const meanDistance = (cluster: number) => {
+      let sum = 0
+      let count = 0
+      vectors.forEach((other, j) => {
+        if (j === i || labels[j] !== cluster) return
+        sum += euclidean(vector, other)
+        count++
+      })
+      return count === 0 ? 0 : sum / count
+    }
+    const own = labels.filter(label => label === labels[i]).length
+    if (own < 2) return // Singletons score 0 by convention
+    const a = meanDistance(labels[i])
+    const b = Math.min(...clusterIds.filter(id => id !== labels[i]).map(meanDistance))
+    total += Math.max(a, b) === 0 ? 0 : (b - a) / Math.max(a, b)
+  })
+  return total / labels.filter(label => label !== NOISE).length
+}
+
+// Lloyd's algorithm with k-means++ seeding
+function kMeans(vectors: number[][], k: number, random: () => number, iterations: number): number[] {
+  const dimensions = vectors[0]?.length ?? 0
+  const centroids: number[][] = [vectors[Math.floor(random() * vectors.length)]]
+  while (centroids.length < k) {
+    const weights = vectors.map(vector => Math.min(...centroids.map(c => euclidean(vector, c))) ** 2)
+    const total = weights.reduce((sum, w) => sum + w, 0)
+    let pick = random() * total
+    let index = 0
+    while (index < weights.length - 1 && pick >= weights[index]) {
+      pick -= weights[index]
+      index++
+    }
+    centroids.push(vectors[index])
+  }
+
+  let labels = vectors.map(() => 0)
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const next = vectors.map(vector => {
+      let best = 0
+      centroids.forEach((centroid, c) => {
+        if (euclidean(vector, centroid) < euclidean(vector, centroids[best])) best = c
+      })
+      return best
+    })
+    const changed = next.some((label, i) => label !== labels[i])
+    labels = next
+    centroids.forEach((_, c) => {
+      const members = vectors.filter((_, i) => labels[i] === c)
+      if (members.length > 0) centroids[c] = mean(members, dimensions)
+    })
+    if (!changed && iteration > 0) break
+  }
+  return labels
+}
+
+/**
+ * Short description of a cluster from its strongest deviations from the
+ * catalog average, e.g. "high energy, low acousticness".
+ */
+export function describeCluster(centroid: number[], overall: number[], keys: FeatureKey[]): string {
+  const deviations = keys
+    .map((key, i) => ({ key, delta: centroid[i] - overall[i] }))
+    .filter(item => Math.abs(item.delta) >= 0.1)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+    .slice(0, 2)
+  if (deviations.length === 0) return 'middle of the road'
+  return deviations.map(item => `${item.delta > 0 ? 'high' : 'low'} ${item.key}`).join(', ')
+}
+
+// Turn per-track labels into described clusters
+function buildClustering(
+  method: Clustering['method'],
+  tracks: Track[],
+  vectors: number[][],
+  labels: number[],
+  keys: FeatureKey[],
+  normalizer: Normalizer
+): Clustering {
+  const overall = mean(vectors, keys.length)
+  const ids = [...new Set(labels.filter(label => label !== NOISE))].sort((a, b) => a - b)
+  // Renumber so cluster ids run 0, 1, 2… with no gaps
+  const renumber = new Map(ids.map((id, index) => [id, index]))
+  const assignments = new Map<string, number>()
+  tracks.forEach((track, i) => assignments.set(track.id, renumber.get(labels[i]) ?? NOISE))
+
+  const clusters: TrackCluster[] = ids.map((id, index) => {
+    const members = vectors.filter((_, i) => labels[i] === id)
+    const centroid = mean(members, keys.length)
+    const features: TrackCluster['centroid'] = {}
+    keys.forEach((key, k) => { features[key] = normalizer.denormalize(key, centroid[k]) })
+    return {
+      id: index,
+      description: describeCluster(centroid, overall, keys),
+      trackIds: tracks.filter((_, i) => labels[i] === id).map(track => track.id),
+      centroid: features
+    }
+  })
+
+  return {
+    method,
+    clusters,
+    assignments,
+    noise: labels.filter(label => label === NOISE).length,
+    silhouette: silhouetteScore(vectors, labels)
+  }
+}
+
+function vectorize(tracks: Track[], options: ClusterOptions) {
+  const keys = options.keys ?? PERCEPTUAL_KEYS
+  const normalizer = options.normalizer ?? createNormalizer(tracks, 'minmax', keys)
+  const vectors = tracks.map(track => keys.map(key => normalizer.normalize(key, track[key])))
+  return { keys, normalizer, vectors }
+}
+
+/**
+ * k-means over normalized feature vectors, trying every k from `minK` to
+ * `maxK` and keeping the one with the highest silhouette score.
+ */
+export function clusterKMeans(tracks: Track[], options: KMeansOptions): Clustering {
+  const { random, minK = 2, maxK = 8, iterations = 50 } = options
+  const { keys, normalizer, vectors } = vectorize(tracks, options)
+  if (tracks.length < 3) return buildClustering('kmeans', tracks, vectors, tracks.map(() => 0), keys, normalizer)
+
+  let bestLabels = tracks.map(() => 0)
+  let bestScore = -Infinity
+  for (let k = minK; k <= Math.min(maxK, tracks.length - 1); k++) {
+    const labels = kMeans(vectors, k, random, iterations)
+    const score = silhouetteScore(vectors, labels)
+    if (score > bestScore) {
+      bestScore = score
+      bestLabels = labels
+    }
+  }
+  return buildClustering('kmeans', tracks, vectors, bestLabels, keys, normalizer)
+}
+
+/**
+ * DBSCAN: clusters are chains of tracks with at least `minPoints` neighbours
+ * within `eps`. Tracks reachable from no dense region are labelled noise.
+ */
+export function clusterDbscan(tracks: Track[], options: DbscanOptions = {}): Clustering {
+  const { eps = 0.45, minPoints = 3 } = options
+  const { keys, normalizer, vectors } = vectorize(tracks, options)
+  const neighbours = vectors.map(vector =>
+    vectors.map((other, j) => ({ j, d: euclidean(vector, other) })).filter(item => item.d <= eps).map(item => item.j)
+  )
+
+  const labels = vectors.map(() => NOISE)
+  const visited = vectors.map(() => false)
+  let cluster = 0
+  vectors.forEach((_, i) => {
+    if (visited[i]) return
+    visited[i] = true
+    if (neighbours[i].length < minPoints) return
+
+    labels[i] = cluster
+    const queue = [...neighbours[i]]
+    while (queue.length > 0) {
+      const j = queue.shift() as number
+      if (labels[j] === NOISE) labels[j] = cluster
+      if (visited[j]) continue
+      visited[j] = true
+      if (neighbours[j].length >= minPoints) queue.push(...neighbours[j])
+    }
+    cluster++
+  })
+
+  return buildClustering('dbscan', tracks, vectors, labels, keys, normalizer)
+}
+
+/**
+ * Whether a candidate passes a "stay in cluster / jump cluster" rule relative
+ * to the seed track. A seed in no cluster (noise) has no home to stay in or
+ * leave, so everything passes.
+ */
+export function inClusterScope(candidate: Track, seed: Track, clustering: Clustering, scope: ClusterScope): boolean {
+  if (scope === 'any') return true
+  const home = clustering.assignments.get(seed.id) ?? NOISE
+  if (home === NOISE) return true
+  const same = clustering.assignments.get(candidate.id) === home
+  return scope === 'stay' ? same : !same
+}
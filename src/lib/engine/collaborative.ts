@@ -0,0 +1,127 @@
+// User-item collaborative filtering over a synthetic listener population
+import type { CollaborativeResult, FeatureKey, Listener, ListenerNeighbor, Track } from '../../types'
+import { createRng, DEFAULT_SEED } from './random'
+
+// Features a synthetic listener has a taste for
+const TASTE_KEYS: FeatureKey[] = ['danceability', 'energy', 'valence', 'acousticness']
+
+export interface PopulationOptions {
+  seed?: number
+  size?: number       // Number of listeners
+  minPlays?: number   // Shortest play history
+  maxPlays?: number   // Longest play history
+}
+
+export interface CollaborativeOptions {
+  neighbors?: number     // Neighbourhood size (k)
+  minNeighbors?: number  // Fewer co-listeners than this counts as cold start
+  limit?: number
+}
+
+/**
+ * Generate a seeded population of synthetic listeners with play histories.
+ *
+ * Each listener gets a random taste point in feature space and a
+ * "mainstream" appetite. Plays are sampled in proportion to how close a
+ * track is to their taste, boosted by popularity for mainstream listeners,
+ * so obscure tracks end up with few or no plays — the long tail that makes
+ * cold start visible.
+ */
+export function generateListenerPopulation(
+  tracks: Track[],
+  options: PopulationOptions = {}
+): Listener[] {
+  const { seed = DEFAULT_SEED, size = 200, minPlays = 8, maxPlays = 24 } = options
+  const random = createRng(seed)
+  const listeners: Listener[] = []
+
+  if (tracks.length === 0) return listeners
+
+  for (let i = 0; i < size; i++) {
+    const taste: Listener['taste'] = {}
+    TASTE_KEYS.forEach(key => { taste[key] = random() })
+    const mainstream = random()
+
+    const weights = tracks.map(track => {
+      const gap = TASTE_KEYS.reduce((sum, key) => sum + Math.abs(track[key] - (taste[key] ?? 0.5)), 0) / TASTE_KEYS.length
+      const affinity = Math.exp(-(gap * gap) / (2 * 0.15 * 0.15))
+      const popularity = Math.pow(track.popularity / 100, 1 + 3 * mainstream)
+      return affinity * popularity
+    })
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0)
+
+    const plays: Record<string, number> = {}
+    const historyLength = minPlays + Math.floor(random() * (maxPlays - minPlays + 1))
+    for (let p = 0; p < historyLength && totalWeight > 0; p++) {
+      let pick = random() * totalWeight
+      let index = 0
+      while (index < weights.length - 1 && pick >= weights[index]) {
+        pick -= weights[index]
+        index++
+      }
+      const id = tracks[index].id
+      plays[id] = (plays[id] ?? 0) + 1
+    }
+
+    listeners.push({ id: `listener-${i + 1}`, taste, mainstream, plays })
+  }
+
+  return listeners
+}
+
+// Euclidean norm of a listener's play-count vector
+function playNorm(listener: Listener): number {
+  return Math.sqrt(Object.values(listener.plays).reduce((sum, count) => sum + count * count, 0))
+}
+
+/**
+ * Recommend tracks for someone who has just played `seed`.
+ *
+ * The active user is a play vector containing only the seed, so cosine
+ * similarity picks out listeners who played it, weighted by how much of
+ * their history it represents. Every other track is scored by the
+ * similarity-weighted plays of the k nearest neighbours.
+ */
+export function recommendCollaborative(
+  listeners: Listener[],
+  tracks: Track[],
+  seed: Track,
+  options: CollaborativeOptions = {}
+): CollaborativeResult {
+  const { neighbors: k = 20, minNeighbors = 3, limit = 15 } = options
+
+  const neighborhood: ListenerNeighbor[] = listeners
+    .filter(listener => (listener.plays[seed.id] ?? 0) > 0)
+    .map(listener => ({ listener, similarity: listener.plays[seed.id] / playNorm(listener) }))
+    .sort((a, b) => b.similarity - a.similarity)
+
+  const seedListeners = neighborhood.length
+  const nearest = neighborhood.slice(0, k)
+
+  const predicted = new Map<string, number>()
+  nearest.forEach(({ listener, similarity }) => {
+    const norm = playNorm(listener)
+    Object.entries(listener.plays).forEach(([id, count]) => {
+      if (id === seed.id) return
+      predicted.set(id, (predicted.get(id) ?? 0) + similarity * (count / norm))
+    })
+  })
+
+  const best = Math.max(0, ...predicted.values())
+  const recommendations = tracks
+    .filter(track => predicted.has(track.id))
+    .map(track => {
+      const distance = best > 0 ? 1 - (predicted.get(track.id) ?? 0) / best : 1
+      return { track, score: distance, distance }
+    })
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map((item, index) => ({ ...item, rank: index + 1 }))
+
+  return {
+    recommendations,
+    neighbors: nearest,
+    seedListeners,
+    coldStart: seedListeners < minNeighbors
+  }
+}
@@ -0,0 +1,157 @@
+// Constraint layer: fill a playlist from any algorithm's preferences under playlist rules
+import type { ConstrainedPlaylist, ConstraintIssue, ConstraintKind, FeatureKey, PlaylistConstraints, Track } from '../../types'
+
+export interface ConstraintOptions {
+  constraints: PlaylistConstraints
+  // The algorithm's preference for the next track, best first; tracks it leaves out rank last
+  rank: (current: Track | null, candidates: Track[]) => Track[]
+  start?: Track                       // Fixed first track
+  genreOf?: (track: Track) => string  // Defaults to the track's genre; 'unknown' is exempt from the share rule
+}
+
+// Soft rules are loosened in this order when no candidate satisfies them all
+const LEVELS = ['strict', 'genre-share', 'artist-gap', 'feature-bounds'] as const
+
+/**
+ * Fill a playlist position by position, taking the algorithm's most
+ * preferred track that keeps every rule.
+ *
+ * Banned tracks never appear. Required tracks are placed when the
+ * algorithm reaches them, and forced into the last open slots otherwise;
+ * a required track outside the feature bounds is still placed. When no
+ * candidate fits a position, the genre share, then the artist gap, then
+ * the feature bounds are loosened for that position only, and each
+ * loosening is reported as a relaxation. Rules the finished playlist still
+ * breaks — a short playlist, a missing required track, a start track that
+ * is banned or out of bounds — are reported as violations.
+ *
+ * @param tracks - Catalog to draw from
+ * @param options - Rules, the algorithm's ranking, optional start track and genre lookup
+ */
+export function buildConstrainedPlaylist(tracks: Track[], options: ConstraintOptions): ConstrainedPlaylist {
+  const { constraints, rank, start, genreOf = (track: Track) => track.genre } = options
+  const { artistGap = 0, maxGenreShare = 1, required = [], banned = [], bounds = {} } = constraints
+  const relaxations: ConstraintIssue[] = []
+  const violations: ConstraintIssue[] = []
+
+  const byId = new Map(tracks.map(track => [track.id, track]))
+  const bannedIds = new Set(banned)
+  const name = (track: Track) => `"${track.name}"`
+
+  const outOfBounds = (track: Track): FeatureKey | null => {
+    for (const key of Object.keys(bounds) as FeatureKey[]) {
+      const range = bounds[key]
+      if (!range) continue
+      if ((range.min !== undefined && track[key] < range.min) || (range.max !== undefined && track[key] > range.max)) return key
+    }
+    return null
+  }
+
+  // Required tracks that can actually be placed, in the order given
+  const pending: Track[] = []
+  new Set(required).forEach(id => {
+    const track = byId.get(id)
+    if (!track) {
+      violations.push({ kind: 'required', position: null, trackId: id, message: `Required track ${id} is not in the catalog` })
+    } else if (bannedIds.has(id)) {
+      violations.push({ kind: 'required', position: null, trackId: id, message: `${name(track)} is both required and banned; it was left out` })
+    } else if (track.id !== start?.id) {
+      pending.push(track)
+    }
+  })
+
+  const order: Track[] = []
+  if (start) {
+    order.push(start)
+    if (bannedIds.has(start.id)) {
+      violations.push({ kind: 'banned', position: 0, trackId: start.id, message: `The start track ${name(start)} is banned` })
+    }
+    const key = outOfBounds(start)
+    if (key) {
+      violations.push({ kind: 'feature-bounds', position: 0, trackId: start.id, message: `The start track ${name(start)} is outside the ${key} bounds` })
+    }
+  }
+
+  const length = Math.max(constraints.length, order.length + pending.length)
+  if (length > constraints.length) {
+    violations.push({
+      kind: 'length',
+      position: null,
+      message: `${pending.length} required tracks need ${length} slots; the playlist runs ${length - constraints.length} over`
+    })
+  }
+
+  // Unknown genres don't count towards any share
+  const genreLimit = maxGenreShare >= 1 ? Infinity : Math.max(1, Math.floor(maxGenreShare * length))
+  const genreCounts = new Map<string, number>()
+  const countGenre = (track: Track) => {
+    const genre = genreOf(track)
+    if (genre !== 'unknown') genreCounts.set(genre, (genreCounts.get(genre) ?? 0) + 1)
+  }
+  order.forEach(countGenre)
+
+  const keepsGenreShare = (track: Track) => {
+    const genre = genreOf(track)
+    return genre === 'unknown' || (genreCounts.get(genre) ?? 0) < genreLimit
+  }
+  const keepsArtistGap = (track: Track) =>
+    artistGap <= 0 || !order.slice(-artistGap).some(played => played.artist === track.artist)
+  const isRequired = (track: Track) => pending.includes(track)
+
+  const allows = (track: Track, level: typeof LEVELS[number]) => {
+    const loosened = LEVELS.indexOf(level)
+    return (loosened >= 1 || keepsGenreShare(track))
+      && (loosened >= 2 || keepsArtistGap(track))
+      && (loosened >= 3 || isRequired(track) || !outOfBounds(track))
+  }
+
+  const used = new Set(order.map(track => track.id))
+  while (order.length < length) {
+    const current = order[order.length - 1] ?? null
+    // Once the open slots run out, only required tracks may fill them
+    const forced = pending.length >= length - order.length
+    const candidates = forced
+      ? [...pending]
+      : tracks.filter(track => !used.has(track.id) && !bannedIds.has(track.id))
+    if (candidates.length === 0) break
+
+    // The algorithm's order, then anything it left out in catalog order
+    const ranked = rank(current, candidates).filter(track => candidates.includes(track))
+    const preference = [...new Set([...ranked, ...candidates])]
+
+    let found: Track | undefined
+    for (const level of LEVELS) {
+      found = preference.find(track => allows(track, level))
+      if (found) break
+    }
+    if (!found) break
+    const pick = found
+
+    // Report every rule the pick breaks
+    const position = order.length
+    const loosen = (kind: ConstraintKind, detail: string) =>
+      relaxations.push({ kind, position, trackId: pick.id, message: `${name(pick)} ${detail}` })
+    if (!keepsGenreShare(pick)) loosen('genre-share', `is track ${(genreCounts.get(genreOf(pick)) ?? 0) + 1} from ${genreOf(pick)}, over the limit of ${genreLimit}`)
+    if (!keepsArtistGap(pick)) loosen('artist-gap', `repeats ${pick.artist} within ${artistGap} tracks`)
+    const key = outOfBounds(pick)
+    if (key) loosen('feature-bounds', isRequired(pick) ? `is required but outside the ${key} bounds` : `is outside the ${key} bounds`)
+
+    order.push(pick)
+    used.add(pick.id)
+    countGenre(pick)
+    if (isRequired(pick)) pending.splice(pending.indexOf(pick), 1)
+  }
+
+  if (order.length < constraints.length) {
+    violations.push({
+      kind: 'length',
+      position: null,
+      message: `Only ${order.length} of ${constraints.length} tracks could be placed; no unbanned tracks are left`
+    })
+  }
+  pending.forEach(track => {
+    violations.push({ kind: 'required', position: null, trackId: track.id, message: `Required track ${name(track)} could not be placed` })
+  })
+
+  return { tracks: order, relaxations, violations }
+}
@@ -0,0 +1,61 @@
+// Content-based filtering across the full audio feature vector
+import type { FeatureKey, RankedTrack, Track } from '../../types'
+import { FEATURE_KEYS } from './features'
+import { createNormalizer } from './normalize'
+
+export interface ContentOptions {
+  keys?: FeatureKey[]
+  limit?: number
+  genreWeight?: number // Distance added when a track's genre differs from the seed's
+}
+
+/**
+ * Cosine similarity between two equal-length vectors.
+ * Returns 0 when either vector has no magnitude.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  if (normA === 0 || normB === 0) return 0
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+/**
+ * Rank the catalog by content similarity to a seed track.
+ *
+ * Each track becomes a standardized vector over all audio features and is
+ * compared to the seed with cosine similarity. `distance` is
+ * 1 - similarity, so 0 means "points the same way" and 2 means "opposite".
+ * With `genreWeight`, genre is a categorical part of the distance: tracks
+ * outside the seed's genre, or with an unknown genre, are pushed back by it.
+ */
+export function recommendContentBased(
+  tracks: Track[],
+  seed: Track,
+  options: ContentOptions = {}
+): RankedTrack[] {
+  const { keys = FEATURE_KEYS, limit = 15, genreWeight = 0 } = options
+  if (tracks.length === 0) return []
+
+  // Z-score every feature over the catalog so BPM and decibels don't drown out 0-1 features
+  const normalizer = createNormalizer(tracks.some(t => t.id === seed.id) ? tracks : [...tracks, seed], 'zscore', keys)
+  const vectorOf = (track: Track) => keys.map(key => normalizer.normalize(key, track[key]))
+  const seedVector = vectorOf(seed)
+
+  return tracks
+    .filter(track => track.id !== seed.id)
+    .map(track => {
+      const sameGenre = track.genre !== 'unknown' && track.genre === seed.genre
+      const distance = 1 - cosineSimilarity(seedVector, vectorOf(track)) + (sameGenre ? 0 : genreWeight)
+      return { track, score: distance, distance }
+    })
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map((item, index) => ({ ...item, rank: index + 1 }))
+}
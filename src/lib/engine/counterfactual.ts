@@ -0,0 +1,152 @@
+// Counterfactual queries: what would have to change for a track to be the top pick
+import type { AlgorithmConfig, Counterfactual, FeatureKey, Normalizer, Track } from '../../types'
+
+export interface CounterfactualOptions {
+  target: NonNullable<AlgorithmConfig['target']> // Target the ranking was made against
+  keys?: FeatureKey[]                              // Features ranked on (defaults to the target's)
+  normalizer?: Normalizer
+  weights?: Partial<Record<FeatureKey, number>>    // Current feature weights (default 1 each)
+  noise?: (track: Track) => number                 // Fixed per-track score offset, e.g. `jitterNoise`
+  steps?: number                                   // Coarse scan resolution for the target search
+}
+
+/**
+ * Ask why `candidate` isn't the top pick, and what would make it one.
+ *
+ * Tracks are compared on weighted mean absolute distance to the target plus
+ * any `noise`, and ties go to the track earlier in the catalog — the same
+ * order `rankTracks` produces when `noise` is its `jitterNoise`. The mean
+ * divides by the current weight total, which stays fixed while a weight is
+ * varied, so weights act as plain multipliers. A feature at weight 0 plays no
+ * part in the ranking but can still be weighed in. The result reports:
+ * - rank: where the candidate sits now
+ * - blocking: the feature where it loses most ground to the current leader,
+ *   null when it loses none and only noise or catalog order keeps it behind
+ * - targetShift: the nearest target, moving the weighted features straight
+ *   from the current one toward the candidate's own values, at which it
+ *   ranks first
+ * - weightShift: the smallest change to a single feature's weight that
+ *   makes it rank first (needs at least two features)
+ */
+export function counterfactual(tracks: Track[], candidate: Track, options: CounterfactualOptions): Counterfactual {
+  const { target, normalizer, weights = {}, noise, steps = 100 } = options
+  const keys = (options.keys ?? (Object.keys(target) as FeatureKey[])).filter(key => target[key] !== undefined)
+  const weightOf = (key: FeatureKey) => weights[key] ?? 1
+  const valueOf = (track: Track, key: FeatureKey) => normalizer ? normalizer.normalize(key, track[key]) : track[key]
+  // Noise in weighted-sum units, so it compares with summed gaps
+  const scale = keys.reduce((total, key) => total + weightOf(key), 0) || 1
+  const offset = (track: Track) => noise ? noise(track) * scale : 0
+  const moved = keys.filter(key => weightOf(key) > 0)
+
+  const position = tracks.findIndex(track => track.id === candidate.id)
+  const others = tracks.filter(track => track.id !== candidate.id)
+  // Whether `other` ranks above the candidate at equal distance
+  const winsTie = (other: Track) => position === -1 || tracks.indexOf(other) < position
+
+  // Per-feature weighted gaps to a target; the weight total cancels when comparing
+  const gaps = (track: Track, goal: Partial<Record<FeatureKey, number>>) =>
+    keys.map(key => weightOf(key) * Math.abs(valueOf(track, key) - (goal[key] ?? 0)))
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+  const score = (track: Track, goal: Partial<Record<FeatureKey, number>>) => sum(gaps(track, goal)) + offset(track)
+
+  const beats = (other: Track, goal: Partial<Record<FeatureKey, number>>, mine: number) => {
+    const theirs = score(other, goal)
+    return theirs < mine || (theirs === mine && winsTie(other))
+  }
+  const isTop = (goal: Partial<Record<FeatureKey, number>>) => {
+    const mine = score(candidate, goal)
+    return !others.some(other => beats(other, goal, mine))
+  }
+
+  const mine = gaps(candidate, target)
+  const ahead = others.filter(other => beats(other, target, score(candidate, target)))
+  const rank = ahead.length + 1
+
+  // Current leader: lowest score, earliest in the catalog on ties
+  const leader = rank === 1 ? null : ahead
+    .map(track => ({ track, index: tracks.indexOf(track), distance: score(track, target) }))
+    .sort((a, b) => a.distance - b.distance || a.index - b.index)[0]?.track ?? null
+
+  let blocking: FeatureKey | null = null
+  if (leader) {
+    const theirs = gaps(leader, target)
+    let worst = 0
+    keys.forEach((key, i) => {
+      if (mine[i] - theirs[i] > worst) {
+        worst = mine[i] - theirs[i]
+        blocking = key
+      }
+    })
+  }
+
+  // Target search along the straight line toward the candidate's own values
+  let targetShift: Counterfactual['targetShift'] = null
+  if (rank === 1) {
+    targetShift = { target: { ...target }, change: 0 }
+  } else {
+    const along = (alpha: number) => {
+      const goal: Partial<Pick<Track, FeatureKey>> = { ...target }
+      moved.forEach(key => { goal[key] = (target[key] as number) + alpha * (valueOf(candidate, key) - (target[key] as number)) })
+      return goal
+    }
+    let low = 0
+    let high = -1
+    for (let step = 1; step <= steps; step++) {
+      if (isTop(along(step / steps))) {
+        high = step / steps
+        break
+      }
+      low = step / steps
+    }
+    if (high >= 0) {
+      for (let iteration = 0; iteration < 30; iteration++) {
+        const middle = (low + high) / 2
+        if (isTop(along(middle))) high = middle
+        else low = middle
+      }
+      const goal = along(high)
+      targetShift = {
+        target: goal,
+        change: moved.length === 0 ? 0 : sum(moved.map(key => Math.abs((goal[key] as number) - (target[key] as number)))) / moved.length
+      }
+    }
+  }
+
+  // One feature's weight at a time: each rival gives a linear bound on it
+  let weightShift: Counterfactual['weightShift'] = null
+  if (rank > 1 && keys.length > 1) {
+    keys.forEach((key, k) => {
+      const rest = (values: number[]) => sum(values.filter((_, j) => j !== k))
+      const own = Math.abs(valueOf(candidate, key) - (target[key] as number))
+      let lower = 0
+      let upper = Infinity
+      let feasible = true
+      others.forEach(other => {
+        const theirs = gaps(other, target)
+        const slope = own - Math.abs(valueOf(other, key) - (target[key] as number))
+        const gap = rest(mine) - rest(theirs) + offset(candidate) - offset(other)
+        // Candidate wins when gap + weight × slope < 0 (≤ 0 if it wins the tie)
+        if (slope === 0) {
+          if (gap > 0 || (gap === 0 && winsTie(other))) feasible = false
+        } else if (slope > 0) {
+          upper = Math.min(upper, -gap / slope)
+        } else {
+          lower = Math.max(lower, -gap / slope)
+        }
+      })
+      if (!feasible || lower >= upper) return
+
+      const current = weightOf(key)
+      // Just inside the feasible interval, on the side nearest the current weight
+      const span = Number.isFinite(upper) ? upper - lower : Math.max(1, lower)
+      const weight = current <= lower ? lower + span * 1e-3 : upper - span * 1e-3
+      if (weight < 0) return
+      if (!weightShift || Math.abs(weight - current) < Math.abs(weightShift.weight - weightOf(weightShift.key))) {
+        weightShift = { key, weight }
+      }
+    })
+  }
+
+  return { track: candidate, rank, leader, blocking, targetShift, weightShift }
+}
@@ -0,0 +1,54 @@
+// Distance measures shared by the ranking and playlist algorithms
+import type { AlgorithmConfig, FeatureKey, Normalizer, Track } from '../../types'
+
+/**
+ * Resolve which features a config ranks on.
+ * Explicit `keys` win; otherwise every feature named in `target` is used.
+ */
+export function resolveKeys(config: AlgorithmConfig): FeatureKey[] {
+  if (config.keys && config.keys.length > 0) return config.keys
+  return Object.keys(config.target ?? {}) as FeatureKey[]
+}
+
+/**
+ * Mean absolute difference between a track and the target on the given keys.
+ * Keys without a target value are skipped. With a normalizer, track values
+ * are normalized first and the target is read as normalized too.
+ */
+export function targetDistance(
+  track: Track,
+  target: AlgorithmConfig['target'] = {},
+  keys: FeatureKey[],
+  normalizer?: Normalizer
+): number {
+  let total = 0
+  let count = 0
+  for (const key of keys) {
+    const goal = target[key]
+    if (goal === undefined) continue
+    const value = normalizer ? normalizer.normalize(key, track[key]) : track[key]
+    total += Math.abs(value - goal)
+    count++
+  }
+  return count === 0 ? 0 : total / count
+}
+
+/**
+ * Mean absolute difference between two tracks on the given keys,
+ * normalized first when a normalizer is supplied.
+ */
+export function featureDistance(
+  a: Track,
+  b: Track,
+  keys: FeatureKey[],
+  normalizer?: Normalizer
+): number {
+  if (keys.length === 0) return 0
+  let total = 0
+  for (const key of keys) {
+    const valueA = normalizer ? normalizer.normalize(key, a[key]) : a[key]
+    const valueB = normalizer ? normalizer.normalize(key, b[key]) : b[key]
+    total += Math.abs(valueA - valueB)
+  }
+  return total / keys.length
+}
@@ -0,0 +1,143 @@
+// Diversity re-ranking: trade relevance against redundancy in a result list
+import type { DiversityMethod, FeatureKey, Normalizer, RankedTrack, Track } from '../../types'
+import { featureDistance } from './distance'
+import { FEATURE_KEYS } from './features'
+
+export interface DiversityOptions {
+  method: DiversityMethod
+  lambda: number            // 1 = pure relevance, 0 = pure diversity
+  limit?: number            // Length of the re-ranked list
+  keys?: FeatureKey[]       // Features similarity is measured on
+  normalizer?: Normalizer   // Ideally min-max, so distances sit in 0-1
+  bandwidth?: number        // Similarity kernel width
+}
+
+// Laplacian kernel on mean feature distance; positive semi-definite, as DPP needs
+function similarity(a: Track, b: Track, options: DiversityOptions): number {
+  const distance = featureDistance(a, b, options.keys ?? FEATURE_KEYS, options.normalizer)
+  return Math.exp(-distance / (options.bandwidth ?? 0.1))
+}
+
+// Map ranking scores (lower is better) to relevance in 0-1 (higher is better)
+function relevanceOf(ranked: RankedTrack[]): number[] {
+  const scores = ranked.map(item => item.score)
+  const best = Math.min(...scores)
+  const worst = Math.max(...scores)
+  return scores.map(score => worst > best ? (worst - score) / (worst - best) : 1)
+}
+
+/**
+ * Mean pairwise feature distance within a list.
+ * 0 means every track is identical on the measured features.
+ */
+export function intraListDiversity(
+  tracks: Track[],
+  keys: FeatureKey[] = FEATURE_KEYS,
+  normalizer?: Normalizer
+): number {
+  if (tracks.length < 2) return 0
+  let total = 0
+  let pairs = 0
+  for (let i = 0; i < tracks.length; i++) {
+    for (let j = i + 1; j < tracks.length; j++) {
+      total += featureDistance(tracks[i], tracks[j], keys, normalizer)
+      pairs++
+    }
+  }
+  return total / pairs
+}
+
+/**
+ * Maximal Marginal Relevance.
+ * Repeatedly picks the item maximizing
+ * λ · relevance − (1 − λ) · max similarity to anything already picked.
+ */
+function mmr(ranked: RankedTrack[], options: DiversityOptions, limit: number): RankedTrack[] {
+  const relevance = relevanceOf(ranked)
+  const remaining = ranked.map((_, index) => index)
+  const picked: number[] = []
+
+  while (picked.length < limit && remaining.length > 0) {
+    let bestPosition = 0
+    let bestValue = -Infinity
+    remaining.forEach((candidate, position) => {
+      const redundancy = picked.length === 0
+        ? 0
+        : Math.max(...picked.map(p => similarity(ranked[candidate].track, ranked[p].track, options)))
+      const value = options.lambda * relevance[candidate] - (1 - options.lambda) * redundancy
+      if (value > bestValue) {
+        bestValue = value
+        bestPosition = position
+      }
+    })
+    picked.push(remaining.splice(bestPosition, 1)[0])
+  }
+
+  return picked.map(index => ranked[index])
+}
+
+/**
+ * Determinantal point process, greedy MAP inference (Chen et al., 2018).
+ * The kernel L = diag(q) · S · diag(q) scales similarity S by per-item
+ * quality q = exp(α · relevance), with α = λ / (2(1 − λ)). Each step adds the
+ * item that most increases log det(L) via incremental Cholesky updates.
+ */
+function dpp(ranked: RankedTrack[], options: DiversityOptions, limit: number): RankedTrack[] {
+  const lambda = Math.min(options.lambda, 0.99)
+  const alpha = lambda / (2 * (1 - lambda))
+  const relevance = relevanceOf(ranked)
+  const quality = relevance.map(r => Math.exp(alpha * r))
+  const kernel = (i: number, j: number) =>
+    quality[i] * quality[j] * (i === j ? 1 : similarity(ranked[i].track, ranked[j].track, options))
+
+  const n = ranked.length
+  const cholesky: number[][] = ranked.map(() => [])
+  const gains = ranked.map((_, i) => kernel(i, i))
+  const picked: number[] = []
+  const available = new Set(ranked.map((_, i) => i))
+
+  while (picked.length < limit && available.size > 0) {
+    let best = -1
+    available.forEach(i => {
+      if (best === -1 || gains[i] > gains[best]) best = i
+    })
+    if (gains[best] < 1e-10) break // Every remaining item is already spanned
+
+    picked.push(best)
+    available.delete(best)
+    const root = Math.sqrt(gains[best])
+    for (let i = 0; i < n; i++) {
+      if (!available.has(i)) continue
+      const dot = cholesky[best].reduce((sum, value, k) => sum + value * cholesky[i][k], 0)
+      const e = (kernel(best, i) - dot) / root
+      cholesky[i].push(e)
+      gains[i] -= e * e
+    }
+  }
+
+  // Fill any remaining slots in relevance order
+  ranked.forEach((_, i) => {
+    if (picked.length < limit && !picked.includes(i)) picked.push(i)
+  })
+  return picked.map(index => ranked[index])
+}
+
+/**
+ * Re-rank any algorithm's output for diversity.
+ *
+ * @param ranked - Candidates from any algorithm, best first
+ * @param options - Method ('none', 'mmr' or 'dpp'), λ and similarity settings
+ * @returns Re-ranked list with fresh 1-based ranks
+ */
+export function diversify(ranked: RankedTrack[], options: DiversityOptions): RankedTrack[] {
+  const limit = Math.min(options.limit ?? ranked.length, ranked.length)
+  if (ranked.length === 0) return []
+
+  const reordered = options.method === 'mmr'
+    ? mmr(ranked, options, limit)
+    : options.method === 'dpp'
+      ? dpp(ranked, options, limit)
+      : ranked.slice(0, limit)
+
+  return reordered.map((item, index) => ({ ...item, rank: index + 1 }))
+}
@@ -0,0 +1,54 @@
+// Structured explanations of ranked results: feature contributions, jitter and margins
+import type { AlgorithmConfig, FeatureContribution, FeatureKey, Normalizer, RankedTrack, Track } from '../../types'
+
+export interface ExplainOptions {
+  target?: AlgorithmConfig['target'] // Recompute contributions against this target
+  keys?: FeatureKey[]
+  normalizer?: Normalizer
+}
+
+/**
+ * Break a track's target distance into one share per feature, largest
+ * first. Shares sum to `targetDistance` for the same arguments.
+ */
+export function featureContributions(
+  track: Track,
+  target: AlgorithmConfig['target'] = {},
+  keys: FeatureKey[],
+  normalizer?: Normalizer
+): FeatureContribution[] {
+  const used = keys.filter(key => target[key] !== undefined)
+  return used
+    .map(key => {
+      const value = normalizer ? normalizer.normalize(key, track[key]) : track[key]
+      const goal = target[key] as number
+      return { key, value, target: goal, share: Math.abs(value - goal) / used.length }
+    })
+    .sort((a, b) => b.share - a.share)
+}
+
+/**
+ * Refresh explanations for a list in its final order, after any re-ranking:
+ * each item's margin becomes its score lead over the item below it (negative
+ * when re-ranking lifted it above a better score). Jitter and contributions
+ * recorded by `rankTracks` and adjustments recorded by `debiasPopularity`
+ * are kept; contributions are recomputed when a new `target` is given.
+ * Lists from recommenders that don't score on feature distance get none.
+ */
+export function explainRanking(ranked: RankedTrack[], options: ExplainOptions = {}): RankedTrack[] {
+  const { target, keys = Object.keys(target ?? {}) as FeatureKey[], normalizer } = options
+  return ranked.map((item, index) => {
+    const next = ranked[index + 1]
+    return {
+      ...item,
+      explanation: {
+        contributions: target
+          ? featureContributions(item.track, target, keys, normalizer)
+          : item.explanation?.contributions ?? [],
+        jitter: item.explanation?.jitter ?? 0,
+        adjustment: item.explanation?.adjustment ?? 0,
+        margin: next ? next.score - item.score : null
+      }
+    }
+  })
+}
@@ -0,0 +1,267 @@
+// Implicit-feedback matrix factorization: ALS and BPR trained on an interaction log
+import type { FactorModel, FactorizationMethod, FeatureKey, Interaction, InteractionKind, Listener, RankedTrack, Track } from '../../types'
+import { createRng, DEFAULT_SEED } from './random'
+
+export interface FactorizationOptions {
+  method?: FactorizationMethod
+  factors?: number        // Latent dimensions
+  iterations?: number     // ALS sweeps, or BPR epochs
+  regularization?: number // L2 penalty on every factor
+  alpha?: number          // ALS: confidence added per unit of feedback
+  learningRate?: number   // BPR: SGD step size
+  random?: () => number   // Initialization and BPR sampling
+}
+
+export interface FactorRecommendOptions {
+  limit?: number
+  exclude?: string[] // Track ids never to recommend, e.g. the one playing
+}
+
+// Signal each interaction adds to a user-track cell; skips push it negative
+const FEEDBACK: Record<InteractionKind, number> = { play: 1, like: 3, skip: -1 }
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0)
+
+/**
+ * Solve `a x = b` for a small dense system by Gaussian elimination with
+ * partial pivoting. `a` is positive definite here, so pivots never vanish.
+ */
+function solve(a: number[][], b: number[]): number[] {
+  const n = b.length
+  const m = a.map((row, i) => [...row, b[i]])
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]]
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col]
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k]
+    }
+  }
+  const x = new Array(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n]
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k]
+    x[row] = sum / m[row][row]
+  }
+  return x
+}
+
+/**
+ * Turn a synthetic listener population into an interaction log: one play
+ * per counted play.
+ */
+export function interactionsFromListeners(listeners: Listener[]): Interaction[] {
+  return listeners.flatMap(listener => Object.entries(listener.plays).flatMap(([trackId, count]) =>
+    Array.from({ length: count }, () => ({ userId: listener.id, trackId, kind: 'play' as const }))
+  ))
+}
+
+/**
+ * Learn latent user and track factors from plays, skips and likes.
+ *
+ * Interactions are summed per user and track (play +1, like +3, skip −1).
+ * A positive sum means "preferred"; anything else, including tracks never
+ * touched, means "not preferred".
+ * - ALS (Hu, Koren & Volinsky): weighted least squares over every user-track
+ *   cell, with confidence 1 + alpha·|sum|, so skips are confident negatives.
+ *   Users and tracks are solved in closed form in turn.
+ * - BPR (Rendle et al.): SGD on sampled (user, preferred, other) triples,
+ *   pushing each preferred track above the other; half the negatives are
+ *   drawn from the user's skips when they have any.
+ *
+ * @param interactions - Log of who did what with which track
+ * @param tracks - Tracks to learn factors for; interactions with others are ignored
+ * @param options - Method, dimensions, iterations and regularization
+ */
+export function trainFactorModel(
+  interactions: Interaction[],
+  tracks: Track[],
+  options: FactorizationOptions = {}
+): FactorModel {
+  const {
+    method = 'als',
+    factors = 8,
+    iterations = method === 'als' ? 15 : 40,
+    regularization = 0.1,
+    alpha = 4,
+    learningRate = 0.05,
+    random = createRng(DEFAULT_SEED)
+  } = options
+
+  // Summed feedback per user and track
+  const known = new Set(tracks.map(track => track.id))
+  const cells = new Map<string, Map<string, number>>()
+  interactions.forEach(({ userId, trackId, kind }) => {
+    if (!known.has(trackId)) return
+    const row = cells.get(userId) ?? new Map<string, number>()
+    row.set(trackId, (row.get(trackId) ?? 0) + FEEDBACK[kind])
+    cells.set(userId, row)
+  })
+
+  const userIds = [...cells.keys()]
+  const itemIds = tracks.map(track => track.id).filter(id => userIds.some(user => cells.get(user)?.has(id)))
+  const itemIndex = new Map(itemIds.map((id, i) => [id, i]))
+  const init = () => Array.from({ length: factors }, () => (random() - 0.5) * 0.2)
+  const U = userIds.map(init)
+  const V = itemIds.map(init)
+  const rows = userIds.map(user => [...(cells.get(user) ?? new Map<string, number>())]
+    .map(([id, value]) => ({ item: itemIndex.get(id) as number, value })))
+  const loss: number[] = []
+
+  const penalty = () => regularization * [...U, ...V].reduce((sum, vector) => sum + dot(vector, vector), 0)
+
+  if (method === 'als') {
+    // Cells by track, for the item half of each sweep
+    const columns: Array<Array<{ user: number; value: number }>> = itemIds.map(() => [])
+    rows.forEach((row, user) => row.forEach(({ item, value }) => columns[item].push({ user, value })))
+
+    // One side's factors, holding the other fixed
+    const sweep = (
+      target: number[][],
+      fixed: number[][],
+      observed: Array<Array<{ index: number; value: number }>>
+    ) => {
+      // Fixedᵀ·Fixed covers the confidence-1 zeros in every row
+      const gram = Array.from({ length: factors }, (_, a) =>
+        Array.from({ length: factors }, (_, b) => fixed.reduce((sum, vector) => sum + vector[a] * vector[b], 0)))
+      target.forEach((_, t) => {
+        const a = gram.map((row, i) => row.map((value, j) => value + (i === j ? regularization : 0)))
+        const b = new Array(factors).fill(0)
+        observed[t].forEach(({ index, value }) => {
+          const confidence = 1 + alpha * Math.abs(value)
+          const vector = fixed[index]
+          for (let i = 0; i < factors; i++) {
+            for (let j = 0; j < factors; j++) a[i][j] += (confidence - 1) * vector[i] * vector[j]
+            if (value > 0) b[i] += confidence * vector[i]
+          }
+        })
+        target[t] = solve(a, b)
+      })
+    }
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      sweep(U, V, rows.map(row => row.map(({ item, value }) => ({ index: item, value }))))
+      sweep(V, U, columns.map(column => column.map(({ user, value }) => ({ index: user, value }))))
+
+      // Weighted squared error over every cell, per cell
+      let error = 0
+      U.forEach((user, u) => {
+        const observed = new Map(rows[u].map(({ item, value }) => [item, value]))
+        V.forEach((item, i) => {
+          const value = observed.get(i) ?? 0
+          const residual = (value > 0 ? 1 : 0) - dot(user, item)
+          error += (1 + alpha * Math.abs(value)) * residual * residual
+        })
+      })
+      loss.push((error + penalty()) / Math.max(1, U.length * V.length))
+    }
+  } else {
+    const positives = rows.flatMap((row, user) => row.filter(cell => cell.value > 0).map(cell => ({ user, item: cell.item })))
+    const skipped = rows.map(row => row.filter(cell => cell.value < 0).map(cell => cell.item))
+    const preferred = rows.map(row => new Set(row.filter(cell => cell.value > 0).map(cell => cell.item)))
+
+    for (let epoch = 0; epoch < iterations && positives.length > 0; epoch++) {
+      let total = 0
+      let samples = 0
+      for (let s = 0; s < positives.length; s++) {
+        const { user, item } = positives[Math.floor(random() * positives.length)]
+        if (preferred[user].size === V.length) continue
+        let other: number
+        if (skipped[user].length > 0 && random() < 0.5) {
+          other = skipped[user][Math.floor(random() * skipped[user].length)]
+        } else {
+          do { other = Math.floor(random() * V.length) } while (preferred[user].has(other))
+        }
+
+        const u = U[user]
+        const i = V[item]
+        const j = V[other]
+        const margin = u.reduce((sum, value, d) => sum + value * (i[d] - j[d]), 0)
+        const gradient = 1 / (1 + Math.exp(margin)) // σ(−margin)
+        for (let d = 0; d < factors; d++) {
+          const ud = u[d]
+          u[d] += learningRate * (gradient * (i[d] - j[d]) - regularization * ud)
+          i[d] += learningRate * (gradient * ud - regularization * i[d])
+          j[d] += learningRate * (-gradient * ud - regularization * j[d])
+        }
+        total += Math.log(1 + Math.exp(-margin)) // −ln σ(margin)
+        samples++
+      }
+      loss.push(samples > 0 ? total / samples : 0)
+    }
+  }
+
+  return {
+    method,
+    factors,
+    users: Object.fromEntries(userIds.map((id, u) => [id, U[u]])),
+    items: Object.fromEntries(itemIds.map((id, i) => [id, V[i]])),
+    loss
+  }
+}
+
+/**
+ * Rank tracks for a user by the dot product of their factors.
+ *
+ * `distance` is the gap to the best score, scaled so the top track is 0
+ * and the worst 1. Tracks without factors can't be scored and are left
+ * out; a user without factors gets nothing.
+ */
+export function recommendFactorized(
+  model: FactorModel,
+  tracks: Track[],
+  userId: string,
+  options: FactorRecommendOptions = {}
+): RankedTrack[] {
+  const { limit = 15, exclude = [] } = options
+  const user = model.users[userId]
+  if (!user) return []
+
+  const scored = tracks
+    .filter(track => model.items[track.id] && !exclude.includes(track.id))
+    .map(track => ({ track, affinity: dot(user, model.items[track.id]) }))
+  const best = Math.max(...scored.map(item => item.affinity))
+  const worst = Math.min(...scored.map(item => item.affinity))
+
+  return scored
+    .map(({ track, affinity }) => {
+      const distance = best > worst ? (best - affinity) / (best - worst) : 0
+      return { track, score: distance, distance }
+    })
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map((item, index) => ({ ...item, rank: index + 1 }))
+}
+
+/**
+ * Pearson correlation of each latent dimension with each audio feature
+ * across the tracks that have factors: rows are dimensions, columns follow
+ * `keys`. Near 0 means the model learned something the feature doesn't
+ * capture.
+ */
+export function factorCorrelations(model: FactorModel, tracks: Track[], keys: FeatureKey[]): number[][] {
+  const scored = tracks.filter(track => model.items[track.id])
+  const correlation = (xs: number[], ys: number[]) => {
+    const n = xs.length
+    if (n < 2) return 0
+    const mx = xs.reduce((sum, x) => sum + x, 0) / n
+    const my = ys.reduce((sum, y) => sum + y, 0) / n
+    let sxy = 0
+    let sxx = 0
+    let syy = 0
+    for (let i = 0; i < n; i++) {
+      sxy += (xs[i] - mx) * (ys[i] - my)
+      sxx += (xs[i] - mx) ** 2
+      syy += (ys[i] - my) ** 2
+    }
+    return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0
+  }
+
+  return Array.from({ length: model.factors }, (_, d) => {
+    const latent = scored.map(track => model.items[track.id][d])
+    return keys.map(key => correlation(latent, scored.map(track => track[key])))
+  })
+}
@@ -0,0 +1,21 @@
+// Audio feature definitions shared across the engine
+import type { FeatureKey } from '../../types'
+
+// Every numeric audio feature on Track, danceability through time_signature
+export const FEATURE_KEYS: FeatureKey[] = [
+  'danceability',
+  'energy',
+  'valence',
+  'tempo',
+  'acousticness',
+  'instrumentalness',
+  'liveness',
+  'speechiness',
+  'loudness',
+  'mode',
+  'key',
+  'time_signature'
+]
+
+// Features a listener hears as the sound of a track; leaves out key, mode and time signature
+export const PERCEPTUAL_KEYS: FeatureKey[] = FEATURE_KEYS.slice(0, 9)
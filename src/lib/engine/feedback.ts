@@ -0,0 +1,114 @@
+// Feedback loop simulation: a listener whose taste is shaped by what they're recommended
+import type {
+  AcceptanceModel,
+  FeatureKey,
+  FeedbackLoopResult,
+  FeedbackRound,
+  Normalizer,
+  RankedTrack,
+  Track
+} from '../../types'
+import { targetDistance } from './distance'
+import { intraListDiversity } from './diversity'
+import { PERCEPTUAL_KEYS } from './features'
+import { createNormalizer } from './normalize'
+
+type Preference = Partial<Pick<Track, FeatureKey>>
+
+// What a recommender sees at the start of each round
+export interface FeedbackContext {
+  preference: Preference // Listener's current taste, normalized
+  current: Track         // Last track they accepted
+  round: number
+}
+
+export interface FeedbackLoopOptions {
+  recommend: (context: FeedbackContext) => RankedTrack[]
+  start: Track                   // Track the listener starts from; also their initial taste
+  random: () => number
+  rounds?: number
+  acceptance?: AcceptanceModel
+  learningRate?: number          // How far taste moves toward each accepted track
+  tolerance?: number             // Distance scale for accepting a track
+  listSize?: number              // Recommendations offered per round
+  window?: number                // Recent accepted tracks diversity is measured over
+  keys?: FeatureKey[]
+  normalizer?: Normalizer
+}
+
+/**
+ * Run a synthetic listener through repeated rounds of recommendations.
+ *
+ * Each round the recommender offers a list and the listener takes at most
+ * one track from it:
+ * - always: the top recommendation, no questions asked
+ * - probabilistic: walks down the list, accepting each with probability
+ *   exp(−distance / tolerance) from their current taste
+ * - picky: the top recommendation only if it is within `tolerance`
+ *
+ * An accepted track pulls the listener's taste toward it by `learningRate`,
+ * which feeds the next round's recommendations — the loop. Every round
+ * records taste drift from the start, the share of the catalog ever
+ * recommended, and the diversity of the last `window` accepted tracks.
+ */
+export function simulateFeedbackLoop(tracks: Track[], options: FeedbackLoopOptions): FeedbackLoopResult {
+  const {
+    recommend,
+    start,
+    random,
+    rounds = 200,
+    acceptance = 'probabilistic',
+    learningRate = 0.2,
+    tolerance = 0.15,
+    listSize = 5,
+    window = 10,
+    keys = PERCEPTUAL_KEYS
+  } = options
+  const normalizer = options.normalizer ?? createNormalizer(tracks, 'minmax', keys)
+
+  const initial: Preference = {}
+  keys.forEach(key => { initial[key] = normalizer.normalize(key, start[key]) })
+  const preference: Preference = { ...initial }
+  const recommended = new Set<string>()
+  const accepted: Track[] = [start]
+  let current = start
+
+  const history: FeedbackRound[] = []
+  for (let round = 1; round <= rounds; round++) {
+    // Never re-offer the track that's playing right now
+    const offered = recommend({ preference: { ...preference }, current, round })
+      .filter(item => item.track.id !== current.id)
+      .slice(0, listSize)
+    offered.forEach(item => recommended.add(item.track.id))
+
+    const distanceTo = (track: Track) => targetDistance(track, preference, keys, normalizer)
+    let pick: Track | null = null
+    if (acceptance === 'always') {
+      pick = offered[0]?.track ?? null
+    } else if (acceptance === 'picky') {
+      pick = offered[0] && distanceTo(offered[0].track) <= tolerance ? offered[0].track : null
+    } else {
+      pick = offered.find(item => random() < Math.exp(-distanceTo(item.track) / tolerance))?.track ?? null
+    }
+
+    if (pick) {
+      const chosen = pick
+      keys.forEach(key => {
+        const value = normalizer.normalize(key, chosen[key])
+        preference[key] = (preference[key] ?? value) + learningRate * (value - (preference[key] ?? value))
+      })
+      accepted.push(pick)
+      current = pick
+    }
+
+    history.push({
+      round,
+      track: pick,
+      drift: keys.reduce((sum, key) => sum + Math.abs((preference[key] ?? 0) - (initial[key] ?? 0)), 0) / keys.length,
+      coverage: tracks.length === 0 ? 0 : recommended.size / tracks.length,
+      diversity: intraListDiversity(accepted.slice(-window), keys, normalizer)
+    })
+  }
+
+  return { rounds: history, finalPreference: preference }
+}
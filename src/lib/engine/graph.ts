@@ -0,0 +1,157 @@
+// Track-similarity graph and personalized PageRank (random walk with restart)
+import type { EdgeKind, FeatureKey, GraphEdge, GraphResult, Normalizer, Track, TrackGraph } from '../../types'
+import { PERCEPTUAL_KEYS } from './features'
+import { createFeatureIndex } from './spatial'
+
+export interface GraphOptions {
+  neighbors?: number      // k nearest tracks each track links to
+  keys?: FeatureKey[]     // Features the kNN edges are measured on
+  normalizer?: Normalizer
+  artistWeight?: number   // Weight of a same-artist edge (0 = none)
+  genreWeight?: number    // Weight of a same-genre edge (0 = none)
+  groupLinks?: number     // Same-artist or same-genre tracks each track links to ahead of it in catalog order
+}
+
+export interface WalkOptions {
+  restart?: number    // Probability of jumping back to the seed at each step
+  walkLength?: number // Steps of the walk simulated
+  limit?: number
+}
+
+/**
+ * Build an undirected similarity graph over the catalog.
+ *
+ * Each track links to its k nearest tracks on the feature keys, weighted
+ * 1 / (1 + distance) so closer tracks pull harder; the neighbours come
+ * from a `createFeatureIndex` k-d tree rather than sorting every pair, and
+ * ties fall to catalog order as a full sort would. Tracks by the same
+ * artist, and tracks in the same known genre, are linked as well, but only
+ * around a ring: each group member links to the next `groupLinks` members
+ * in catalog order, wrapping at the end. Small groups still link every pair;
+ * a large genre stays connected with at most 2 × `groupLinks` links per
+ * track instead of becoming a clique. Links between the same pair are
+ * merged: weights add and every reason is kept.
+ */
+export function buildTrackGraph(tracks: Track[], options: GraphOptions = {}): TrackGraph {
+  const { neighbors = 5, keys = PERCEPTUAL_KEYS, normalizer, artistWeight = 1, genreWeight = 0.3, groupLinks = 3 } = options
+  const links = new Map<string, Map<string, { weight: number; kinds: Set<EdgeKind> }>>()
+  tracks.forEach(track => links.set(track.id, new Map()))
+
+  const link = (a: Track, b: Track, weight: number, kind: EdgeKind) => {
+    for (const [from, to] of [[a, b], [b, a]]) {
+      const edges = links.get(from.id) as Map<string, { weight: number; kinds: Set<EdgeKind> }>
+      const edge = edges.get(to.id)
+      if (!edge) {
+        edges.set(to.id, { weight, kinds: new Set([kind]) })
+      } else if (!edge.kinds.has(kind)) {
+        // kNN picks the same pair from both ends; count it once
+        edge.weight += weight
+        edge.kinds.add(kind)
+      }
+    }
+  }
+
+  const index = createFeatureIndex(tracks, { keys, normalizer })
+  tracks.forEach(track => {
+    const target = Object.fromEntries(keys.map(key => [key, normalizer ? normalizer.normalize(key, track[key]) : track[key]]))
+    // One extra, since the track usually finds itself
+    index.nearest(target, neighbors + 1, keys)
+      .filter(({ track: other }) => other.id !== track.id)
+      .slice(0, neighbors)
+      .forEach(({ track: other, distance }) => link(track, other, 1 / (1 + distance), 'similar'))
+  })
+
+  const linkGroups = (groupOf: (track: Track) => string | null, weight: number, kind: EdgeKind) => {
+    if (weight <= 0) return
+    const groups = new Map<string, Track[]>()
+    tracks.forEach(track => {
+      const group = groupOf(track)
+      if (group === null) return
+      const members = groups.get(group)
+      if (members) members.push(track)
+      else groups.set(group, [track])
+    })
+    groups.forEach(members => {
+      const reach = Math.min(groupLinks, members.length - 1)
+      members.forEach((track, i) => {
+        for (let step = 1; step <= reach; step++) link(track, members[(i + step) % members.length], weight, kind)
+      })
+    })
+  }
+  linkGroups(track => track.artist, artistWeight, 'artist')
+  linkGroups(track => track.genre === 'unknown' ? null : track.genre, genreWeight, 'genre')
+
+  const edges: Record<string, GraphEdge[]> = {}
+  let edgeCount = 0
+  links.forEach((targets, id) => {
+    edges[id] = [...targets].map(([to, { weight, kinds }]) => ({ to, weight, kinds: [...kinds] }))
+    edgeCount += targets.size
+  })
+  return { edges, edgeCount: edgeCount / 2 }
+}
+
+/**
+ * Personalized PageRank from a seed track.
+ *
+ * A walker starts on the seed; at every step it jumps back to the seed
+ * with probability `restart`, otherwise follows an edge chosen in
+ * proportion to its weight. After `walkLength` steps each track's score
+ * is the chance of finding the walker there, so tracks several hops away
+ * can rank well when many paths lead to them — something a single-feature
+ * nearest-neighbour pass never does. `distance` is 1 − score / best.
+ */
+export function recommendGraph(
+  tracks: Track[],
+  graph: TrackGraph,
+  seed: Track,
+  options: WalkOptions = {}
+): GraphResult {
+  const { restart = 0.15, walkLength = 10, limit = 15 } = options
+  const totals: Record<string, number> = {}
+  Object.entries(graph.edges).forEach(([id, edges]) => {
+    totals[id] = edges.reduce((sum, edge) => sum + edge.weight, 0)
+  })
+
+  // Walker distribution after each step, starting on the seed
+  let scores: Record<string, number> = { [seed.id]: 1 }
+  for (let step = 0; step < walkLength; step++) {
+    const next: Record<string, number> = { [seed.id]: restart }
+    Object.entries(scores).forEach(([id, mass]) => {
+      const edges = graph.edges[id] ?? []
+      // A track with no links sends the walker home
+      if (edges.length === 0 || totals[id] === 0) {
+        next[seed.id] += (1 - restart) * mass
+        return
+      }
+      edges.forEach(edge => {
+        next[edge.to] = (next[edge.to] ?? 0) + (1 - restart) * mass * edge.weight / totals[id]
+      })
+    })
+    scores = next
+  }
+
+  // Breadth-first hop counts, to show how far the walk reaches
+  const hops: Record<string, number> = { [seed.id]: 0 }
+  const queue = [seed.id]
+  while (queue.length > 0) {
+    const id = queue.shift() as string
+    for (const edge of graph.edges[id] ?? []) {
+      if (hops[edge.to] !== undefined) continue
+      hops[edge.to] = hops[id] + 1
+      queue.push(edge.to)
+    }
+  }
+
+  const best = Math.max(0, ...tracks.filter(track => track.id !== seed.id).map(track => scores[track.id] ?? 0))
+  const recommendations = tracks
+    .filter(track => track.id !== seed.id && (scores[track.id] ?? 0) > 0)
+    .map(track => {
+      const distance = best > 0 ? 1 - (scores[track.id] ?? 0) / best : 1
+      return { track, score: distance, distance }
+    })
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map((item, index) => ({ ...item, rank: index + 1 }))
+
+  return { recommendations, scores, hops }
+}
@@ -0,0 +1,50 @@
+// The Algorithmic Ear recommendation engine
+// Pure, framework-free ranking functions shared by the UI and anything else
+// that wants to run the algorithms outside React.
+
+export { jitterNoise, rankTracks } from './rank'
+export { beamSearch, lookahead, stepCost } from './search'
+export { resolveKeys, targetDistance, featureDistance } from './distance'
+export { buildGreedyPlaylist, describePlaylist, hopCost } from './playlist'
+export type { PlaylistOptions, TempoScoring } from './playlist'
+export { TEMPO_RATIOS, formatAdjustment, tempoTransition } from './tempo'
+export type { TempoOptions, TempoRatio } from './tempo'
+export { ARC_PRESETS, fitArc, interpolateCurve } from './arc'
+export type { ArcOptions } from './arc'
+export { optimizePlaylist } from './optimal'
+export type { OptimalOptions } from './optimal'
+export { buildConstrainedPlaylist } from './constraints'
+export type { ConstraintOptions } from './constraints'
+export { generateListenerPopulation, recommendCollaborative } from './collaborative'
+export type { PopulationOptions, CollaborativeOptions } from './collaborative'
+export { buildTrackGraph, recommendGraph } from './graph'
+export type { GraphOptions, WalkOptions } from './graph'
+export { factorCorrelations, interactionsFromListeners, recommendFactorized, trainFactorModel } from './factorization'
+export type { FactorizationOptions, FactorRecommendOptions } from './factorization'
+export { FEATURE_KEYS, PERCEPTUAL_KEYS } from './features'
+export { createNormalizer } from './normalize'
+export { diversify, intraListDiversity } from './diversity'
+export type { DiversityOptions } from './diversity'
+export { createBandit, likeProbability, selectArm, simulateBandit, updateBandit } from './bandit'
+export type { BanditOptions, SimulationOptions } from './bandit'
+export { camelotDistance, formatCamelot, harmonicRelation, keyName, recommendHarmonic, toCamelot } from './camelot'
+export type { HarmonicOptions } from './camelot'
+export { debiasPopularity, popularityHistogram, propensity, splitHeadTail } from './popularity'
+export type { DebiasOptions } from './popularity'
+export { simulateFeedbackLoop } from './feedback'
+export type { FeedbackContext, FeedbackLoopOptions } from './feedback'
+export { NOISE, clusterDbscan, clusterKMeans, describeCluster, inClusterScope, silhouetteScore } from './cluster'
+export type { ClusterOptions, DbscanOptions, KMeansOptions } from './cluster'
+export { counterfactual } from './counterfactual'
+export type { CounterfactualOptions } from './counterfactual'
+export { explainRanking, featureContributions } from './explain'
+export type { ExplainOptions } from './explain'
+export { createFeatureIndex } from './spatial'
+export type { FeatureIndexOptions } from './spatial'
+export { benchmarkFeatureIndex } from './benchmark'
+export type { IndexBenchmark, IndexBenchmarkOptions } from './benchmark'
+export { CLUSTER_COLORS, projectPca, projectTracks, projectTsne } from './projection'
+export type { ColorBy, ProjectionOptions } from './projection'
+export { cosineSimilarity, recommendContentBased } from './content'
+export type { ContentOptions } from './content'
+export { DEFAULT_SEED, createRng, createRandomService, deriveSeed, forkRng } from './random'
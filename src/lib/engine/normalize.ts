@@ -0,0 +1,104 @@
+// Feature normalization: put BPM, decibels and 0-1 scores on a common scale
+import type { FeatureKey, FeatureScaler, Normalizer, ScalerKind, Track } from '../../types'
+import { FEATURE_KEYS } from './features'
+
+// Pass-through scaler for features the normalizer wasn't fitted on
+const IDENTITY_SCALER: FeatureScaler = {
+  domain: [0, 1],
+  transform: value => value,
+  invert: value => value
+}
+
+// Min-max: catalog minimum -> 0, maximum -> 1
+function fitMinMax(values: number[]): FeatureScaler {
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const range = max - min
+  return {
+    domain: [0, 1],
+    transform: value => range > 0 ? (value - min) / range : 0,
+    invert: normalized => min + normalized * range
+  }
+}
+
+// Z-score: distance from the catalog mean in standard deviations
+function fitZScore(values: number[]): FeatureScaler {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length
+  const std = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length)
+  const transform = (value: number) => std > 0 ? (value - mean) / std : 0
+  return {
+    domain: [transform(Math.min(...values)), transform(Math.max(...values))],
+    transform,
+    invert: normalized => mean + normalized * std
+  }
+}
+
+// Percentile rank: share of the catalog below a value, interpolated between neighbours
+function fitPercentile(values: number[]): FeatureScaler {
+  const sorted = [...values].sort((a, b) => a - b)
+  const last = sorted.length - 1
+
+  const transform = (value: number) => {
+    if (last <= 0) return 0
+    if (value <= sorted[0]) return 0
+    if (value >= sorted[last]) return 1
+
+    let lo = 0
+    while (sorted[lo + 1] < value) lo++
+    const hi = lo + 1
+    if (sorted[hi] === value) {
+      // Ties share the average of their positions
+      let end = hi
+      while (end < last && sorted[end + 1] === value) end++
+      return (hi + end) / 2 / last
+    }
+    return (lo + (value - sorted[lo]) / (sorted[hi] - sorted[lo])) / last
+  }
+
+  const invert = (normalized: number) => {
+    if (last <= 0) return sorted[0] ?? 0
+    const position = Math.max(0, Math.min(1, normalized)) * last
+    const lo = Math.floor(position)
+    const hi = Math.min(lo + 1, last)
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (position - lo)
+  }
+
+  return { domain: [0, 1], transform, invert }
+}
+
+const FITTERS: Record<ScalerKind, (values: number[]) => FeatureScaler> = {
+  minmax: fitMinMax,
+  zscore: fitZScore,
+  percentile: fitPercentile
+}
+
+/**
+ * Fit a scaler of the given kind for every feature over the loaded catalog.
+ *
+ * @param tracks - Catalog the statistics are computed over
+ * @param kind - 'minmax', 'zscore' or 'percentile'
+ * @param keys - Features to fit (defaults to all audio features)
+ * @returns Normalizer that maps between raw units and normalized space
+ */
+export function createNormalizer(
+  tracks: Track[],
+  kind: ScalerKind = 'minmax',
+  keys: FeatureKey[] = FEATURE_KEYS
+): Normalizer {
+  const scalers: Normalizer['scalers'] = {}
+  if (tracks.length > 0) {
+    keys.forEach(key => {
+      scalers[key] = FITTERS[kind](tracks.map(track => track[key]))
+    })
+  }
+
+  const scalerFor = (key: FeatureKey) => scalers[key] ?? IDENTITY_SCALER
+
+  return {
+    kind,
+    scalers,
+    normalize: (key, value) => scalerFor(key).transform(value),
+    denormalize: (key, normalized) => scalerFor(key).invert(normalized),
+    domain: key => scalerFor(key).domain
+  }
+}
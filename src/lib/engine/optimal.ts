@@ -0,0 +1,143 @@
+// Globally optimal (or near-optimal) playlist ordering
+import type { OptimizedPlaylist, Track } from '../../types'
+import { describePlaylist, hopCost } from './playlist'
+import type { PlaylistOptions } from './playlist'
+
+export interface OptimalOptions extends PlaylistOptions {
+  exactLimit?: number // Largest playlist solved exactly with dynamic programming, at most MAX_EXACT
+}
+
+// Hard cap on the exact solver: its tables hold 2^n · n entries (16 tracks
+// is already ~1M), and parents are stored in an Int8Array
+const MAX_EXACT = 16
+
+// Pairwise transition costs between every track in the playlist
+function distanceMatrix(tracks: Track[], options: PlaylistOptions): number[][] {
+  return tracks.map(a => tracks.map(b => hopCost(a, b, options)))
+}
+
+// Total cost of visiting `order` (indices into the matrix) in sequence
+function pathCost(order: number[], dist: number[][]): number {
+  let cost = 0
+  for (let i = 1; i < order.length; i++) cost += dist[order[i - 1]][order[i]]
+  return cost
+}
+
+/**
+ * Held-Karp dynamic programming over subsets.
+ * Finds the cheapest open path that starts at index 0 and visits every track
+ * exactly once. O(2^n · n²), so only used for small playlists.
+ */
+function solveExact(dist: number[][]): number[] {
+  const n = dist.length
+  if (n <= 2) return Array.from({ length: n }, (_, i) => i)
+
+  const full = (1 << n) - 1
+  const cost = new Float64Array((1 << n) * n).fill(Infinity)
+  const parent = new Int8Array((1 << n) * n).fill(-1)
+  cost[1 * n + 0] = 0
+
+  for (let mask = 1; mask <= full; mask += 2) { // Every subset includes the start
+    for (let last = 0; last < n; last++) {
+      const current = cost[mask * n + last]
+      if (current === Infinity) continue
+      for (let next = 1; next < n; next++) {
+        if (mask & (1 << next)) continue
+        const nextMask = mask | (1 << next)
+        const candidate = current + dist[last][next]
+        if (candidate < cost[nextMask * n + next]) {
+          cost[nextMask * n + next] = candidate
+          parent[nextMask * n + next] = last
+        }
+      }
+    }
+  }
+
+  let end = 1
+  for (let last = 2; last < n; last++) {
+    if (cost[full * n + last] < cost[full * n + end]) end = last
+  }
+
+  const order: number[] = []
+  let mask = full
+  let node = end
+  while (node !== -1) {
+    order.unshift(node)
+    const previous = parent[mask * n + node]
+    mask &= ~(1 << node)
+    node = previous
+  }
+  return order
+}
+
+/**
+ * 2-opt and Or-opt local search, keeping the first track fixed.
+ * 2-opt reverses a segment; Or-opt lifts a run of 1-3 tracks and
+ * reinserts it elsewhere. Repeats until neither move helps.
+ */
+function solveLocalSearch(dist: number[][]): number[] {
+  const order = Array.from({ length: dist.length }, (_, i) => i)
+  const n = order.length
+  const epsilon = 1e-12
+  let improved = true
+
+  while (improved) {
+    improved = false
+
+    // 2-opt: reverse order[i..k]
+    for (let i = 1; i < n - 1; i++) {
+      for (let k = i + 1; k < n; k++) {
+        const before = dist[order[i - 1]][order[i]] + (k < n - 1 ? dist[order[k]][order[k + 1]] : 0)
+        const after = dist[order[i - 1]][order[k]] + (k < n - 1 ? dist[order[i]][order[k + 1]] : 0)
+        if (after < before - epsilon) {
+          const reversed = order.slice(i, k + 1).reverse()
+          order.splice(i, reversed.length, ...reversed)
+          improved = true
+        }
+      }
+    }
+
+    // Or-opt: move a segment of 1-3 tracks to a better position
+    for (let size = 1; size <= 3; size++) {
+      for (let i = 1; i + size <= n; i++) {
+        const baseline = pathCost(order, dist)
+        const segment = order.slice(i, i + size)
+        const rest = [...order.slice(0, i), ...order.slice(i + size)]
+        for (let j = 1; j <= rest.length; j++) {
+          if (j === i) continue
+          const candidate = [...rest.slice(0, j), ...segment, ...rest.slice(j)]
+          if (pathCost(candidate, dist) < baseline - epsilon) {
+            order.splice(0, n, ...candidate)
+            improved = true
+            break
+          }
+        }
+      }
+    }
+  }
+
+  return order
+}
+
+/**
+ * Reorder a playlist's tracks to minimize total transition cost.
+ *
+ * The first track stays in place so the result is comparable with a greedy
+ * walk from the same start. Playlists up to `exactLimit` tracks are solved
+ * exactly; larger ones are improved from their given order with local search.
+ * `exactLimit` is clamped to MAX_EXACT so the exact tables stay in memory.
+ *
+ * @param order - Tracks in their current order (e.g. the greedy chain)
+ * @param options - Distance keys, normalizer and exact-solver limit
+ */
+export function optimizePlaylist(order: Track[], options: OptimalOptions): OptimizedPlaylist {
+  const { exactLimit = 12 } = options
+  const dist = distanceMatrix(order, options)
+  const method = order.length <= Math.min(exactLimit, MAX_EXACT) ? 'dynamic-programming' : 'local-search'
+  const indices = method === 'dynamic-programming' ? solveExact(dist) : solveLocalSearch(dist)
+
+  return {
+    ...describePlaylist(indices.map(i => order[i]), options),
+    method
+  }
+}
@@ -0,0 +1,87 @@
+// Playlist construction by chaining nearest neighbours
+import type { FeatureKey, Normalizer, Playlist, PlaylistStep, Track } from '../../types'
+import { featureDistance } from './distance'
+import { tempoTransition } from './tempo'
+import type { TempoOptions } from './tempo'
+
+export interface TempoScoring extends TempoOptions {
+  weight?: number // Scale of the tempo cost relative to feature distance
+}
+
+export interface PlaylistOptions {
+  keys: FeatureKey[]        // Features each hop is measured on
+  length?: number           // Number of tracks, including the start
+  normalizer?: Normalizer
+  driftKeys?: FeatureKey[]  // Features drift from the start is measured on (defaults to keys)
+  tempo?: TempoScoring      // Add tempo-transition cost to every hop
+}
+
+/**
+ * Cost of playing `b` straight after `a`: feature distance, plus the
+ * weighted tempo-transition cost when tempo scoring is on.
+ */
+export function hopCost(a: Track, b: Track, options: PlaylistOptions): number {
+  const distance = featureDistance(a, b, options.keys, options.normalizer)
+  if (!options.tempo) return distance
+  return distance + (options.tempo.weight ?? 1) * tempoTransition(a, b, options.tempo).cost
+}
+
+/**
+ * Turn an ordered list of tracks into playlist steps with hop distances,
+ * cumulative distance and drift from the first track.
+ */
+export function describePlaylist(order: Track[], options: PlaylistOptions): Playlist {
+  const { keys, normalizer, driftKeys = keys, tempo } = options
+  const start = order[0]
+  let cumulativeDistance = 0
+
+  const steps: PlaylistStep[] = order.map((track, position) => {
+    const hopDistance = position === 0 ? 0 : hopCost(order[position - 1], track, options)
+    cumulativeDistance += hopDistance
+    return {
+      track,
+      position,
+      hopDistance,
+      cumulativeDistance,
+      drift: featureDistance(start, track, driftKeys, normalizer),
+      ...(tempo && position > 0 ? { tempo: tempoTransition(order[position - 1], track, tempo) } : {})
+    }
+  })
+
+  return { steps, totalCost: cumulativeDistance }
+}
+
+/**
+ * Build a playlist greedily: from the current track, always hop to the
+ * nearest track not yet played. Each step is locally optimal; nothing
+ * looks ahead, so the walk is free to wander away from where it began.
+ *
+ * @param tracks - Catalog to draw from
+ * @param start - First track of the playlist
+ * @param options - Distance keys, playlist length, normalizer and tempo scoring
+ */
+export function buildGreedyPlaylist(
+  tracks: Track[],
+  start: Track,
+  options: PlaylistOptions
+): Playlist {
+  const { length = 10 } = options
+  const order: Track[] = [start]
+  const unvisited = tracks.filter(track => track.id !== start.id)
+
+  while (order.length < length && unvisited.length > 0) {
+    const current = order[order.length - 1]
+    let bestIndex = 0
+    let bestDistance = Infinity
+    unvisited.forEach((candidate, index) => {
+      const distance = hopCost(current, candidate, options)
+      if (distance < bestDistance) {
+        bestDistance = distance
+        bestIndex = index
+      }
+    })
+    order.push(unvisited.splice(bestIndex, 1)[0])
+  }
+
+  return describePlaylist(order, options)
+}
@@ -0,0 +1,88 @@
+// Popularity bias: head/tail split, inverse-propensity weighting and long-tail boosting
+import type { HeadTailSplit, RankedTrack, Track } from '../../types'
+
+export interface DebiasOptions {
+  split: HeadTailSplit
+  ipw?: boolean          // Reweight relevance by inverse exposure propensity
+  boost?: number         // 0-1, extra relevance given to long-tail tracks
+  minPropensity?: number // Floor that keeps IPW weights from exploding on obscure tracks
+}
+
+/**
+ * Split the catalog into a popular head and a long tail.
+ * The head is the `headShare` most popular tracks; ties at the threshold go to the head.
+ */
+export function splitHeadTail(tracks: Track[], headShare: number = 0.2): HeadTailSplit {
+  if (tracks.length === 0) return { threshold: 100, headIds: new Set() }
+  const sorted = [...tracks].sort((a, b) => b.popularity - a.popularity)
+  const headSize = Math.max(1, Math.round(sorted.length * headShare))
+  const threshold = sorted[headSize - 1].popularity
+  return {
+    threshold,
+    headIds: new Set(tracks.filter(track => track.popularity >= threshold).map(track => track.id))
+  }
+}
+
+/**
+ * Chance a track was ever shown to a listener, estimated from its popularity.
+ * Popular tracks were exposed more, so their feedback is over-represented.
+ */
+export function propensity(track: Track, minPropensity: number = 0.05): number {
+  return Math.min(1, Math.max(minPropensity, track.popularity / 100))
+}
+
+/**
+ * Re-rank any algorithm's output against popularity bias.
+ *
+ * Relevance (1 for the best score, 0 for the worst) is divided by each
+ * track's propensity when `ipw` is on, which undoes the head's head start,
+ * then rescaled to 0-1. `boost` adds up to one full unit of relevance to
+ * long-tail tracks. Equal scores go to the tail track, so at 1 every tail
+ * track outranks the head: the worst tail track only ties the best head
+ * track on score.
+ *
+ * @returns Re-ranked list with fresh 1-based ranks; `distance` is unchanged,
+ *   and each explanation's `adjustment` records how far the score moved
+ */
+export function debiasPopularity(ranked: RankedTrack[], options: DebiasOptions): RankedTrack[] {
+  const { split, ipw = false, boost = 0, minPropensity = 0.05 } = options
+  if (ranked.length === 0 || (!ipw && boost === 0)) return ranked
+
+  const scores = ranked.map(item => item.score)
+  const best = Math.min(...scores)
+  const worst = Math.max(...scores)
+  const relevance = scores.map(score => worst > best ? (worst - score) / (worst - best) : 1)
+
+  const weighted = ranked.map((item, i) => ipw ? relevance[i] / propensity(item.track, minPropensity) : relevance[i])
+  const maxWeighted = Math.max(0.0001, ...weighted)
+  const adjusted = ranked.map((item, i) =>
+    weighted[i] / maxWeighted + (split.headIds.has(item.track.id) ? 0 : boost)
+  )
+  const top = Math.max(...adjusted)
+
+  return ranked
+    .map((item, i) => ({
+      ...item,
+      score: top - adjusted[i],
+      explanation: {
+        contributions: item.explanation?.contributions ?? [],
+        jitter: item.explanation?.jitter ?? 0,
+        adjustment: (item.explanation?.adjustment ?? 0) + top - adjusted[i] - item.score,
+        margin: item.explanation?.margin ?? null
+      }
+    }))
+    .sort((a, b) => a.score - b.score || Number(split.headIds.has(a.track.id)) - Number(split.headIds.has(b.track.id)))
+    .map((item, index) => ({ ...item, rank: index + 1 }))
+}
+
+/**
+ * Share of tracks in each popularity bucket (0-9, 10-19, … 90-100).
+ */
+export function popularityHistogram(tracks: Track[], bins: number = 10): number[] {
+  const counts = Array.from({ length: bins }, () => 0)
+  tracks.forEach(track => {
+    const bin = Math.min(bins - 1, Math.floor((track.popularity / 100) * bins))
+    counts[Math.max(0, bin)]++
+  })
+  return counts.map(count => tracks.length === 0 ? 0 : count / tracks.length)
+}
@@ -0,0 +1,203 @@
+// 2D projection of the catalog into VisualizationPoints: PCA, or t-SNE as an alternative
+import type { Clustering, FeatureKey, Normalizer, ProjectionMethod, Track, VisualizationPoint } from '../../types'
+import { PERCEPTUAL_KEYS } from './features'
+import { createNormalizer } from './normalize'
+import { NOISE } from './cluster'
+
+export type ColorBy =
+  | { kind: 'feature'; key: FeatureKey }
+  | { kind: 'cluster'; clustering: Clustering }
+
+export interface ProjectionOptions {
+  method?: ProjectionMethod
+  colorBy?: ColorBy
+  keys?: FeatureKey[]      // Features that span the space being projected
+  normalizer?: Normalizer  // Ideally min-max, so every feature weighs the same
+  random?: () => number    // Required for t-SNE's initial layout
+  perplexity?: number      // t-SNE: effective number of neighbours per track
+  iterations?: number      // t-SNE: gradient descent steps
+}
+
+// One colour per cluster, in the app's palette
+export const CLUSTER_COLORS = ['#E0CDA9', '#9DB4C0', '#C08497', '#8FB996', '#F2A65A', '#7B9ACC', '#D4A5A5', '#B5A8D9']
+const NOISE_COLOR = 'rgba(184, 184, 184, 0.4)'
+
+// Feature colour ramp: muted slate at 0, gold at 1
+const LOW_RGB = [58, 74, 90]
+const HIGH_RGB = [248, 227, 158]
+
+function centre(vectors: number[][]): number[][] {
+  const dimensions = vectors[0]?.length ?? 0
+  const means = Array.from({ length: dimensions }, (_, d) =>
+    vectors.reduce((sum, vector) => sum + vector[d], 0) / Math.max(1, vectors.length)
+  )
+  return vectors.map(vector => vector.map((value, d) => value - means[d]))
+}
+
+/**
+ * Principal component analysis: project onto the two directions of greatest
+ * variance, found by power iteration on the covariance matrix with deflation.
+ */
+export function projectPca(vectors: number[][]): Array<[number, number]> {
+  const centred = centre(vectors)
+  const dimensions = centred[0]?.length ?? 0
+  const covariance = Array.from({ length: dimensions }, (_, i) =>
+    Array.from({ length: dimensions }, (_, j) =>
+      centred.reduce((sum, vector) => sum + vector[i] * vector[j], 0) / Math.max(1, centred.length - 1)
+    )
+  )
+
+  const components: number[][] = []
+  for (let c = 0; c < 2; c++) {
+    // Deterministic start that isn't orthogonal to any axis
+    let vector = Array.from({ length: dimensions }, (_, d) => 1 / Math.sqrt(dimensions) + d * 1e-3)
+    let eigenvalue = 0
+    for (let iteration = 0; iteration < 200; iteration++) {
+      const next = covariance.map(row => row.reduce((sum, value, d) => sum + value * vector[d], 0))
+      const norm = Math.sqrt(next.reduce((sum, value) => sum + value * value, 0))
+      if (norm === 0) break
+      vector = next.map(value => value / norm)
+      eigenvalue = norm
+    }
+    components.push(vector)
+    // Deflate so the next pass finds the next component
+    for (let i = 0; i < dimensions; i++) {
+      for (let j = 0; j < dimensions; j++) covariance[i][j] -= eigenvalue * vector[i] * vector[j]
+    }
+  }
+
+  return centred.map(row => [
+    row.reduce((sum, value, d) => sum + value * components[0][d], 0),
+    row.reduce((sum, value, d) => sum + value * (components[1]?.[d] ?? 0), 0)
+  ])
+}
+
+/**
+ * t-SNE: keeps each track's nearest neighbours near it in 2D, at the cost of
+ * global distances. Exact O(n²) gradients, so suited to catalogs of hundreds.
+ */
+export function projectTsne(
+  vectors: number[][],
+  random: () => number,
+  perplexity: number = 10,
+  iterations: number = 300
+): Array<[number, number]> {
+  const n = vectors.length
+  if (n < 3) return vectors.map((_, i) => [i, 0])
+
+  const squared = vectors.map(a => vectors.map(b => a.reduce((sum, value, d) => sum + (value - b[d]) ** 2, 0)))
+
+  // Per-point Gaussian bandwidths matched to the perplexity by binary search
+  const target = Math.log(Math.min(perplexity, n - 1))
+  const conditional = squared.map((row, i) => {
+    let low = 1e-10
+    let high = 1e10
+    let beta = 1
+    let probabilities: number[] = []
+    for (let step = 0; step < 50; step++) {
+      const weights = row.map((d, j) => j === i ? 0 : Math.exp(-d * beta))
+      const total = weights.reduce((sum, w) => sum + w, 0) || 1e-12
+      probabilities = weights.map(w => w / total)
+      const entropy = -probabilities.reduce((sum, p) => sum + (p > 0 ? p * Math.log(p) : 0), 0)
+      if (Math.abs(entropy - target) < 1e-4) break
+      if (entropy > target) {
+        low = beta
+        beta = high === 1e10 ? beta * 2 : (beta + high) / 2
+      } else {
+        high = beta
+        beta = (beta + low) / 2
+      }
+    }
+    return probabilities
+  })
+  const p = conditional.map((row, i) => row.map((value, j) => Math.max((value + conditional[j][i]) / (2 * n), 1e-12)))
+
+  const points = vectors.map(() => [(random() - 0.5) * 1e-2, (random() - 0.5) * 1e-2])
+  const velocity = points.map(() => [0, 0])
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const exaggeration = iteration < 100 ? 4 : 1
+    const momentum = iteration < 100 ? 0.5 : 0.8
+    const affinity = points.map(a => points.map(b => 1 / (1 + (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2)))
+    let total = 0
+    affinity.forEach((row, i) => row.forEach((value, j) => { if (i !== j) total += value }))
+
+    points.forEach((point, i) => {
+      const gradient = [0, 0]
+      for (let j = 0; j < n; j++) {
+        if (i === j) continue
+        const force = 4 * (exaggeration * p[i][j] - affinity[i][j] / total) * affinity[i][j]
+        gradient[0] += force * (point[0] - points[j][0])
+        gradient[1] += force * (point[1] - points[j][1])
+      }
+      velocity[i] = velocity[i].map((v, d) => momentum * v - 100 * gradient[d])
+    })
+    points.forEach((point, i) => {
+      point[0] += velocity[i][0]
+      point[1] += velocity[i][1]
+    })
+  }
+
+  return points.map(point => [point[0], point[1]])
+}
+
+// Rescale coordinates into the unit square, preserving aspect ratio
+function fitToUnitSquare(coordinates: Array<[number, number]>): Array<[number, number]> {
+  const xs = coordinates.map(c => c[0])
+  const ys = coordinates.map(c => c[1])
+  const minX = Math.min(...xs)
+  const minY = Math.min(...ys)
+  const span = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY) || 1
+  const offsetX = (1 - (Math.max(...xs) - minX) / span) / 2
+  const offsetY = (1 - (Math.max(...ys) - minY) / span) / 2
+  return coordinates.map(([x, y]) => [offsetX + (x - minX) / span, offsetY + (y - minY) / span])
+}
+
+// Colour on the slate → gold ramp for a 0-1 value
+function rampColor(value: number): string {
+  const t = Math.min(1, Math.max(0, value))
+  const rgb = LOW_RGB.map((low, i) => Math.round(low + (HIGH_RGB[i] - low) * t))
+  return `rgb(${rgb.join(', ')})`
+}
+
+/**
+ * Lay the catalog out as a 2D map of "where the algorithm thinks songs live".
+ *
+ * Tracks become normalized feature vectors, projected with PCA (default) or
+ * t-SNE and fitted into the unit square. Colour follows one feature on a
+ * slate-to-gold ramp, or cluster membership; size grows with popularity.
+ */
+export function projectTracks(tracks: Track[], options: ProjectionOptions = {}): VisualizationPoint[] {
+  if (tracks.length === 0) return []
+  const {
+    method = 'pca',
+    colorBy,
+    keys = PERCEPTUAL_KEYS,
+    random,
+    perplexity,
+    iterations
+  } = options
+  const normalizer = options.normalizer ?? createNormalizer(tracks, 'minmax', keys)
+  const vectors = tracks.map(track => keys.map(key => normalizer.normalize(key, track[key])))
+
+  if (method === 'tsne' && !random) throw new Error('t-SNE projection needs a random source')
+  const coordinates = fitToUnitSquare(
+    method === 'tsne' && random ? projectTsne(vectors, random, perplexity, iterations) : projectPca(vectors)
+  )
+
+  return tracks.map((track, i) => {
+    let color = CLUSTER_COLORS[0]
+    if (colorBy?.kind === 'feature') {
+      color = rampColor(normalizer.normalize(colorBy.key, track[colorBy.key]))
+    } else if (colorBy?.kind === 'cluster') {
+      const cluster = colorBy.clustering.assignments.get(track.id) ?? NOISE
+      color = cluster === NOISE ? NOISE_COLOR : CLUSTER_COLORS[cluster % CLUSTER_COLORS.length]
+    }
+    return {
+      x: coordinates[i][0],
+      y: coordinates[i][1],
+      track,
+      color,
+      size: 4 + (Math.min(100, Math.max(0, track.popularity)) / 100) * 12
+    }
+  })
+}
@@ -0,0 +1,56 @@
+// Seeded pseudo-random number generation for reproducible rankings and simulations
+import type { RandomService } from '../../types'
+
+// Seed used when nobody picks one
+export const DEFAULT_SEED = 42
+
+/**
+ * Create a mulberry32 generator.
+ * The same seed always yields the same sequence of numbers in [0, 1).
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// FNV-1a hash of a label, used to derive independent streams from one seed
+function hashLabel(label: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < label.length; i++) {
+    hash ^= label.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Derive a child seed for a labelled consumer.
+ * Streams for different labels don't depend on the order they're created in.
+ */
+export function deriveSeed(seed: number, label: string): number {
+  return (Math.imul(seed >>> 0, 0x9e3779b1) ^ hashLabel(label)) >>> 0
+}
+
+// Generator for one labelled consumer of a seed
+export function forkRng(seed: number, label: string): () => number {
+  return createRng(deriveSeed(seed, label))
+}
+
+/**
+ * Random service handed to everything that needs randomness.
+ * Each consumer forks its own labelled stream so the same seed reproduces
+ * the same rankings, populations and synthetic features.
+ */
+export function createRandomService(seed: number = DEFAULT_SEED): RandomService {
+  return {
+    seed,
+    fork: label => forkRng(seed, label),
+    derive: label => deriveSeed(seed, label)
+  }
+}
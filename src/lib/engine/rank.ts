@@ -0,0 +1,91 @@
+// Core ranking for the recommendation engine
+import type { AlgorithmConfig, FeatureKey, FeatureIndex, RankedTrack, Track } from '../../types'
+import { resolveKeys, targetDistance } from './distance'
+import { explainRanking, featureContributions } from './explain'
+import { createRng, DEFAULT_SEED, forkRng } from './random'
+import { lookahead } from './search'
+
+/**
+ * Per-track jitter exactly as `rankTracks` draws it: one draw from `random`
+ * seeds the call, and each track's noise is forked from that seed by its id.
+ */
+export function jitterNoise(random: () => number, jitter: number): (track: Track) => number {
+  if (jitter <= 0) return () => 0
+  const seed = Math.floor(random() * 4294967296)
+  return track => forkRng(seed, track.id)() * jitter
+}
+
+// Tracks close enough to the target to reach the top `limit` once jitter is added
+function indexedCandidates(index: FeatureIndex, config: AlgorithmConfig, keys: FeatureKey[], jitter: number): Track[] {
+  const target = config.target ?? {}
+  const nearest = index.nearest(target, config.limit ?? index.size, keys)
+  if (jitter <= 0) return nearest.map(item => item.track)
+  const cutoff = (nearest[nearest.length - 1]?.distance ?? 0) + jitter
+  return index.withinRadius(target, cutoff, keys).map(item => item.track)
+}
+
+/**
+ * Rank tracks against an AlgorithmConfig.
+ *
+ * - `greedy`: nearest neighbour on the target features, lowest distance first.
+ * - `search`: k-step lookahead. Each candidate is scored by the cheapest
+ *   sequence beam search finds that starts with it (hop from `config.from`,
+ *   target distance and `weight(track)` reward at every step), using
+ *   `config.beamWidth` and `config.depth`. Each result keeps that sequence
+ *   as `lookahead`. Set `config.shortlist` to plan only from the tracks
+ *   nearest the target.
+ *
+ * An optional `jitter` adds up to that much uniform noise to each score,
+ * drawn by `jitterNoise` from `config.random` (defaults to a DEFAULT_SEED
+ * generator so rankings stay reproducible). Each track's noise depends on
+ * its id, not on the order the candidates are scored in.
+ *
+ * Every result carries an explanation: each feature's share of the target
+ * distance, the jitter drawn for it and its score lead over the next result.
+ *
+ * In greedy mode with a `limit`, a `config.index` built over the same tracks
+ * and normalizer replaces the full scan: only tracks within the limit-th
+ * nearest distance plus `jitter` can still make the cut, so only those are
+ * scored. In search mode the index finds the shortlist instead.
+ *
+ * @param tracks - Catalog to rank
+ * @param config - Algorithm configuration
+ * @returns Ranked results, best first, truncated to `config.limit` if set
+ */
+export function rankTracks(tracks: Track[], config: AlgorithmConfig): RankedTrack[] {
+  const keys = resolveKeys(config)
+  const random = config.random ?? createRng(DEFAULT_SEED)
+  const jitter = config.jitter ?? 0
+  const noiseOf = jitterNoise(random, jitter)
+
+  const sequences = config.mode === 'search' ? lookahead(tracks, config) : null
+  const candidates = sequences
+    ? tracks.filter(track => sequences.has(track.id))
+    : config.index && config.limit !== undefined
+      ? indexedCandidates(config.index, config, keys, jitter)
+      : tracks
+
+  const scored = candidates.map(track => {
+    const distance = targetDistance(track, config.target, keys, config.normalizer)
+    const base = sequences?.get(track.id)?.cost ?? distance
+    const noise = noiseOf(track)
+    return { track, distance, score: base + noise, noise, lookahead: sequences?.get(track.id) }
+  })
+
+  const ranked = scored
+    .sort((a, b) => a.score - b.score)
+    .slice(0, config.limit ?? scored.length)
+
+  // Contributions only for the tracks that made the cut
+  return explainRanking(ranked.map(({ noise, lookahead, ...item }, index) => ({
+    ...item,
+    ...(lookahead ? { lookahead } : {}),
+    rank: index + 1,
+    explanation: {
+      contributions: featureContributions(item.track, config.target, keys, config.normalizer),
+      jitter: noise,
+      adjustment: 0,
+      margin: null
+    }
+  })))
+}
@@ -0,0 +1,110 @@
+// Beam search: choose the next track by scoring whole candidate sequences
+import type { AlgorithmConfig, BeamCandidate, BeamSearchResult, FeatureKey, Track } from '../../types'
+import { featureDistance, resolveKeys, targetDistance } from './distance'
+
+/**
+ * Cost of playing `next` after `previous`: the hop between them plus how far
+ * `next` sits from the target, minus any `weight(next)` reward.
+ */
+export function stepCost(
+  previous: Track | undefined,
+  next: Track,
+  config: AlgorithmConfig,
+  keys: FeatureKey[] = resolveKeys(config)
+): number {
+  const hop = previous ? featureDistance(previous, next, keys, config.normalizer) : 0
+  const miss = targetDistance(next, config.target, keys, config.normalizer)
+  const reward = config.weight ? config.weight(next) : 0
+  return hop + miss - reward
+}
+
+// Expand sequences one track at a time, keeping only the cheapest `beamWidth`
+function runBeam(
+  tracks: Track[],
+  from: Track | undefined,
+  config: AlgorithmConfig,
+  depth: number,
+  exclude: Set<string>
+): BeamCandidate[] {
+  const keys = resolveKeys(config)
+  const beamWidth = Math.max(1, config.beamWidth ?? 3)
+  let beam: BeamCandidate[] = [{ sequence: [], cost: 0 }]
+
+  for (let step = 0; step < depth; step++) {
+    const expanded: BeamCandidate[] = []
+    beam.forEach(candidate => {
+      const last = candidate.sequence[candidate.sequence.length - 1] ?? from
+      const used = new Set(candidate.sequence.map(track => track.id))
+      tracks.forEach(track => {
+        if (exclude.has(track.id) || used.has(track.id)) return
+        expanded.push({
+          sequence: [...candidate.sequence, track],
+          cost: candidate.cost + stepCost(last, track, config, keys)
+        })
+      })
+    })
+    if (expanded.length === 0) break
+    beam = expanded.sort((a, b) => a.cost - b.cost).slice(0, beamWidth)
+  }
+
+  return beam.filter(candidate => candidate.sequence.length > 0)
+}
+
+/**
+ * Beam search from `config.from` over `config.depth` steps.
+ * A beam width of 1 and depth of 1 is exactly the greedy one-hop choice.
+ */
+export function beamSearch(tracks: Track[], config: AlgorithmConfig): BeamSearchResult {
+  const exclude = new Set(config.from ? [config.from.id] : [])
+  const beam = runBeam(tracks, config.from, config, Math.max(1, config.depth ?? 3), exclude)
+  return { best: beam[0] ?? null, beam }
+}
+
+// The `config.shortlist` tracks nearest the target, from `config.index` when there is one
+function shortlistTracks(tracks: Track[], config: AlgorithmConfig, keys: FeatureKey[]): Track[] {
+  const size = config.shortlist
+  if (size === undefined || size >= tracks.length) return tracks
+  // One extra, in case the track playing now is among the nearest
+  const wanted = size + (config.from ? 1 : 0)
+  const nearest = config.index
+    ? config.index.nearest(config.target ?? {}, wanted, keys).map(item => item.track)
+    : tracks
+      .map(track => ({ track, distance: targetDistance(track, config.target, keys, config.normalizer) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, wanted)
+      .map(item => item.track)
+  return nearest.filter(track => track.id !== config.from?.id).slice(0, size)
+}
+
+/**
+ * k-step lookahead for every possible next track.
+ * Each candidate's sequence is the candidate itself followed by the cheapest
+ * continuation beam search finds for the remaining `depth - 1` steps; its
+ * cost is the summed step cost of that whole sequence.
+ *
+ * Every candidate runs its own beam, so the work grows with the square of
+ * the catalog. With `config.shortlist` set, candidates and continuations
+ * both come from that many tracks nearest the target (found through
+ * `config.index` when given, with ties in catalog order either way).
+ *
+ * @returns Best sequence per candidate, keyed by the candidate's track id
+ */
+export function lookahead(tracks: Track[], config: AlgorithmConfig): Map<string, BeamCandidate> {
+  const keys = resolveKeys(config)
+  const depth = Math.max(1, config.depth ?? 3)
+  const results = new Map<string, BeamCandidate>()
+  const pool = shortlistTracks(tracks, config, keys)
+
+  pool.forEach(candidate => {
+    if (config.from && candidate.id === config.from.id) return
+    const first = stepCost(config.from, candidate, config, keys)
+    const exclude = new Set([candidate.id, ...(config.from ? [config.from.id] : [])])
+    const continuation = depth > 1 ? runBeam(pool, candidate, config, depth - 1, exclude)[0] : undefined
+    results.set(candidate.id, {
+      sequence: [candidate, ...(continuation?.sequence ?? [])],
+      cost: first + (continuation?.cost ?? 0)
+    })
+  })
+
+  return results
+}
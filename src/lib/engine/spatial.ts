@@ -0,0 +1,143 @@
+// k-d tree index over normalized feature vectors for nearest-neighbour and radius queries
+import type { AlgorithmConfig, FeatureIndex, FeatureKey, Neighbor, Normalizer, Track } from '../../types'
+import { FEATURE_KEYS } from './features'
+
+export interface FeatureIndexOptions {
+  keys?: FeatureKey[]      // Features that can be queried (defaults to all audio features)
+  normalizer?: Normalizer  // Same normalizer the queries' targets are expressed in
+}
+
+interface KdNode {
+  point: number       // Position of the track in the catalog
+  dimension: number   // Column of the vector this node splits on
+  left: KdNode | null
+  right: KdNode | null
+}
+
+type Target = NonNullable<AlgorithmConfig['target']>
+
+// Median split on the widest dimension, so trees stay balanced and useful for any spread
+function buildTree(vectors: Float64Array[], points: number[], dimensions: number[]): KdNode | null {
+  if (points.length === 0) return null
+
+  let dimension = dimensions[0]
+  let widest = -1
+  for (const d of dimensions) {
+    let min = Infinity
+    let max = -Infinity
+    for (const p of points) {
+      const value = vectors[p][d]
+      if (value < min) min = value
+      if (value > max) max = value
+    }
+    if (max - min > widest) {
+      widest = max - min
+      dimension = d
+    }
+  }
+
+  const sorted = [...points].sort((a, b) => vectors[a][dimension] - vectors[b][dimension])
+  const middle = sorted.length >> 1
+  return {
+    point: sorted[middle],
+    dimension,
+    left: buildTree(vectors, sorted.slice(0, middle), dimensions),
+    right: buildTree(vectors, sorted.slice(middle + 1), dimensions)
+  }
+}
+
+/**
+ * Build a spatial index over the catalog. Tracks are normalized once up
+ * front; the k-d tree for each combination of queried features is built the
+ * first time it is asked for and reused after, so an index only needs
+ * rebuilding when the catalog (or its normalizer) changes.
+ *
+ * Distances match `targetDistance`: the mean absolute difference over the
+ * features the target sets, so indexed and brute-force rankings agree
+ * (with jitter too, since `rankTracks` keys each track's noise to its id).
+ */
+export function createFeatureIndex(tracks: Track[], options: FeatureIndexOptions = {}): FeatureIndex {
+  const { keys = FEATURE_KEYS, normalizer } = options
+  const columns = new Map(keys.map((key, i) => [key, i]))
+  const vectors = tracks.map(track => Float64Array.from(keys, key => normalizer ? normalizer.normalize(key, track[key]) : track[key]))
+  const trees = new Map<string, KdNode | null>()
+
+  // Columns and goal values for the features a query actually uses
+  const resolve = (target: Target, queryKeys?: FeatureKey[]) => {
+    const used = (queryKeys ?? keys).filter(key => target[key] !== undefined)
+    const dimensions = used.map(key => {
+      const column = columns.get(key)
+      if (column === undefined) throw new Error(`Feature "${key}" is not in this index`)
+      return column
+    })
+    const goals = used.map(key => target[key] as number)
+    const signature = dimensions.join(',')
+    if (dimensions.length > 0 && !trees.has(signature)) {
+      trees.set(signature, buildTree(vectors, tracks.map((_, i) => i), dimensions))
+    }
+    return { dimensions, goals, root: trees.get(signature) ?? null }
+  }
+
+  // Same summation order as targetDistance so equal tracks tie exactly
+  const distanceTo = (point: number, dimensions: number[], goals: number[]) => {
+    if (dimensions.length === 0) return 0
+    let total = 0
+    for (let i = 0; i < dimensions.length; i++) total += Math.abs(vectors[point][dimensions[i]] - goals[i])
+    return total / dimensions.length
+  }
+
+  const nearest = (target: Target, k: number, queryKeys?: FeatureKey[]): Neighbor[] => {
+    const { dimensions, goals, root } = resolve(target, queryKeys)
+    if (k <= 0) return []
+    if (dimensions.length === 0) return tracks.slice(0, k).map(track => ({ track, distance: 0 }))
+    const best: Array<{ point: number; distance: number }> = []
+
+    const visit = (node: KdNode | null) => {
+      if (!node) return
+      const distance = distanceTo(node.point, dimensions, goals)
+      const worst = best[best.length - 1]
+      if (best.length < k || distance < worst.distance || (distance === worst.distance && node.point < worst.point)) {
+        // Insert in order, keeping catalog order among ties
+        let at = best.length
+        while (at > 0 && (best[at - 1].distance > distance || (best[at - 1].distance === distance && best[at - 1].point > node.point))) at--
+        best.splice(at, 0, { point: node.point, distance })
+        if (best.length > k) best.pop()
+      }
+
+      const goal = goals[dimensions.indexOf(node.dimension)]
+      const offset = goal - vectors[node.point][node.dimension]
+      const [near, far] = offset < 0 ? [node.left, node.right] : [node.right, node.left]
+      visit(near)
+      // The far side can only help if the splitting plane is closer than the worst kept match
+      if (best.length < k || Math.abs(offset) / dimensions.length <= best[best.length - 1].distance) visit(far)
+    }
+    visit(root)
+
+    return best.map(item => ({ track: tracks[item.point], distance: item.distance }))
+  }
+
+  const withinRadius = (target: Target, radius: number, queryKeys?: FeatureKey[]): Neighbor[] => {
+    const { dimensions, goals, root } = resolve(target, queryKeys)
+    if (dimensions.length === 0) return tracks.map(track => ({ track, distance: 0 }))
+    const found: Array<{ point: number; distance: number }> = []
+
+    const visit = (node: KdNode | null) => {
+      if (!node) return
+      const distance = distanceTo(node.point, dimensions, goals)
+      if (distance <= radius) found.push({ point: node.point, distance })
+
+      const goal = goals[dimensions.indexOf(node.dimension)]
+      const offset = goal - vectors[node.point][node.dimension]
+      const [near, far] = offset < 0 ? [node.left, node.right] : [node.right, node.left]
+      visit(near)
+      if (Math.abs(offset) / dimensions.length <= radius) visit(far)
+    }
+    visit(root)
+
+    return found
+      .sort((a, b) => a.distance - b.distance || a.point - b.point)
+      .map(item => ({ track: tracks[item.point], distance: item.distance }))
+  }
+
+  return { size: tracks.length, keys, nearest, withinRadius }
+}
@@ -0,0 +1,65 @@
+// Tempo-compatible transitions: BPM ratios, pitch-shift tolerance and meter
+import type { TempoTransition, Track } from '../../types'
+
+export interface TempoRatio {
+  label: string   // from:to, e.g. "1:2" when the next track runs at double time
+  from: number
+  to: number
+  penalty: number // How much less natural than a straight 1:1 beatmatch, 0-1
+}
+
+export interface TempoOptions {
+  tolerance?: number      // Largest pitch shift a DJ would apply, as a fraction (0.08 = ±8%)
+  ratios?: TempoRatio[]
+  meterPenalty?: number   // Added cost when time signatures differ
+}
+
+export const TEMPO_RATIOS: TempoRatio[] = [
+  { label: '1:1', from: 1, to: 1, penalty: 0 },
+  { label: '1:2', from: 1, to: 2, penalty: 0.1 },
+  { label: '2:1', from: 2, to: 1, penalty: 0.1 },
+  { label: '3:4', from: 3, to: 4, penalty: 0.25 },
+  { label: '4:3', from: 4, to: 3, penalty: 0.25 }
+]
+
+/**
+ * How to get from one track's tempo to the next.
+ *
+ * Each ratio implies a target BPM for the incoming track (70 BPM → 140 BPM is
+ * a perfect 1:2). The pitch shift needed to hit that target, relative to the
+ * tolerance, plus the ratio's own penalty gives a cost; the cheapest ratio
+ * wins. Differing time signatures add a flat penalty. Costs are capped at 1
+ * so they combine with normalized feature distances, and are symmetric so
+ * playlist optimization can reverse segments freely.
+ */
+export function tempoTransition(
+  from: Pick<Track, 'tempo' | 'time_signature'>,
+  to: Pick<Track, 'tempo' | 'time_signature'>,
+  options: TempoOptions = {}
+): TempoTransition {
+  const { tolerance = 0.08, ratios = TEMPO_RATIOS, meterPenalty = 0.5 } = options
+  const meterMatch = from.time_signature === to.time_signature
+
+  if (!(from.tempo > 0) || !(to.tempo > 0)) {
+    return { ratio: '—', targetBpm: to.tempo, adjustment: 0, compatible: false, meterMatch, cost: 1 }
+  }
+
+  let best: TempoTransition | null = null
+  for (const ratio of ratios) {
+    const targetBpm = from.tempo * (ratio.to / ratio.from)
+    // Shift measured in log space so A → B costs the same as B → A
+    const shift = Math.abs(Math.log(targetBpm / to.tempo)) / Math.log(1 + tolerance)
+    const cost = Math.min(1, Math.min(1, shift) + ratio.penalty + (meterMatch ? 0 : meterPenalty))
+    if (!best || cost < best.cost) {
+      best = { ratio: ratio.label, targetBpm, adjustment: targetBpm / to.tempo - 1, compatible: shift <= 1, meterMatch, cost }
+    }
+  }
+
+  return best as TempoTransition
+}
+
+// "+3.1%" style pitch adjustment
+export function formatAdjustment(adjustment: number): string {
+  const percent = adjustment * 100
+  return `${percent >= 0 ? '+' : '−'}${Math.abs(percent).toFixed(1)}%`
+}
@@ -1,5 +1,7 @@
 // Spotify API integration utilities
 import type { TokenResponse, SpotifyRecommendationsResponse, SpotifyAudioFeaturesResponse } from '../types'
+import { DEFAULT_SEED, forkRng } from './engine'
+import { genreForArtist } from '../data/genres'
 
 export async function getToken(): Promise<TokenResponse> {
   try {
@@ -32,6 +34,7 @@ export async function getRecommendations(
     danceability?: number
     energy?: number
     valence?: number
+    seed?: number
   } = {}
 ): Promise<SpotifyRecommendationsResponse> {
   console.log('🎵 Using REAL Spotify recommendation engine (v4.0)')
@@ -42,6 +45,7 @@ export async function getRecommendations(
     const targetEnergy = params.energy ?? 0.5
     const targetValence = params.valence ?? 0.5
     const targetDanceability = params.danceability ?? 0.5
+    const seed = params.seed ?? DEFAULT_SEED
     
     // Step 1: Search for popular tracks using well-known artists - MASSIVE DATABASE
     const popularArtists = [
@@ -179,6 +183,8 @@ export async function getRecommendations(
     // Generate realistic varied features for demonstration
     const generateVariedFeatures = (track: any, index: number) => {
       // Use track popularity and index to create consistent but varied features
+      // Each track gets its own seeded stream so its features only depend on the seed and its id
+      const random = forkRng(seed, `features:${track.id ?? index}`)
       const popularityFactor = (track.popularity || 50) / 100
       const indexFactor = (index % 10) / 10
       
@@ -196,101 +202,28 @@ export async function getRecommendations(
         blues: { energy: 0.5, valence: 0.3, danceability: 0.6, acousticness: 0.8 }
       }
       
-      // Determine genre based on artist - MASSIVE MAPPING
-      const artistToGenre: { [key: string]: string } = {
-        // Pop (20 artists)
-        'Taylor Swift': 'pop', 'Ariana Grande': 'pop', 'Billie Eilish': 'pop', 'Olivia Rodrigo': 'pop', 'Dua Lipa': 'pop',
-        'Ed Sheeran': 'pop', 'Harry Styles': 'pop', 'Justin Bieber': 'pop', 'Selena Gomez': 'pop', 'Miley Cyrus': 'pop',
-        'Lady Gaga': 'pop', 'Katy Perry': 'pop', 'Rihanna': 'pop', 'Beyoncé': 'pop', 'Adele': 'pop',
-        'Bruno Mars': 'pop', 'The Weeknd': 'pop', 'Justin Timberlake': 'pop', 'P!nk': 'pop', 'Maroon 5': 'pop',
-        
-        // Electronic/Dance (20 artists)
-        'Calvin Harris': 'electronic', 'The Chainsmokers': 'electronic', 'Marshmello': 'electronic', 'Skrillex': 'electronic', 'Deadmau5': 'electronic',
-        'David Guetta': 'electronic', 'Martin Garrix': 'electronic', 'Avicii': 'electronic', 'Swedish House Mafia': 'electronic', 'Tiësto': 'electronic',
-        'Armin van Buuren': 'electronic', 'Hardwell': 'electronic', 'Afrojack': 'electronic', 'Steve Aoki': 'electronic', 'Diplo': 'electronic',
-        'Flume': 'electronic', 'Odesza': 'electronic', 'Porter Robinson': 'electronic', 'Madeon': 'electronic', 'Zedd': 'electronic',
-        
-        // Rock (25 artists)
-        'The Beatles': 'rock', 'Queen': 'rock', 'Led Zeppelin': 'rock', 'Pink Floyd': 'rock', 'AC/DC': 'rock',
-        'Rolling Stones': 'rock', 'The Who': 'rock', 'Nirvana': 'rock', 'Guns N Roses': 'rock', 'Metallica': 'rock',
-        'U2': 'rock', 'Coldplay': 'rock', 'Radiohead': 'rock', 'Foo Fighters': 'rock', 'Red Hot Chili Peppers': 'rock',
-        'Green Day': 'rock', 'Linkin Park': 'rock', 'Pearl Jam': 'rock', 'Soundgarden': 'rock', 'Alice in Chains': 'rock',
-        'The Clash': 'rock', 'The Ramones': 'rock', 'Black Sabbath': 'rock', 'Deep Purple': 'rock', 'Jimi Hendrix': 'rock',
-        
-        // Hip-Hop/Rap (25 artists)
-        'Drake': 'hip-hop', 'Kendrick Lamar': 'hip-hop', 'Travis Scott': 'hip-hop', 'Post Malone': 'hip-hop', 'Kanye West': 'hip-hop',
-        'J. Cole': 'hip-hop', 'Eminem': 'hip-hop', 'Jay-Z': 'hip-hop', 'Nas': 'hip-hop', 'Tupac': 'hip-hop',
-        'Biggie': 'hip-hop', 'Snoop Dogg': 'hip-hop', 'Dr. Dre': 'hip-hop', '50 Cent': 'hip-hop', 'Lil Wayne': 'hip-hop',
-        'Future': 'hip-hop', 'Migos': 'hip-hop', 'Cardi B': 'hip-hop', 'Nicki Minaj': 'hip-hop', 'Lil Nas X': 'hip-hop',
-        'Tyler, The Creator': 'hip-hop', 'A$AP Rocky': 'hip-hop', 'JID': 'hip-hop', 'Vince Staples': 'hip-hop', 'Anderson .Paak': 'hip-hop',
-        
-        // Indie/Alternative (20 artists)
-        'Arctic Monkeys': 'indie', 'The 1975': 'indie', 'Tame Impala': 'indie', 'Lorde': 'indie', 'Phoebe Bridgers': 'indie',
-        'Vampire Weekend': 'indie', 'Arcade Fire': 'indie', 'The Strokes': 'indie', 'Interpol': 'indie', 'Modest Mouse': 'indie',
-        'Death Cab for Cutie': 'indie', 'Bon Iver': 'indie', 'Sufjan Stevens': 'indie', 'Fleet Foxes': 'indie', 'Beach House': 'indie',
-        'Mac DeMarco': 'indie', 'King Gizzard': 'indie', 'Glass Animals': 'indie', 'Alt-J': 'indie',
-        
-        // Jazz (15 artists)
-        'Miles Davis': 'jazz', 'John Coltrane': 'jazz', 'Ella Fitzgerald': 'jazz', 'Billie Holiday': 'jazz', 'Duke Ellington': 'jazz',
-        'Louis Armstrong': 'jazz', 'Charlie Parker': 'jazz', 'Thelonious Monk': 'jazz', 'Dave Brubeck': 'jazz', 'Herbie Hancock': 'jazz',
-        'Chick Corea': 'jazz', 'Pat Metheny': 'jazz', 'Wynton Marsalis': 'jazz', 'Diana Krall': 'jazz', 'Norah Jones': 'jazz',
-        
-        // Classical (15 artists)
-        'Ludwig van Beethoven': 'classical', 'Wolfgang Amadeus Mozart': 'classical', 'Johann Sebastian Bach': 'classical', 'Pyotr Ilyich Tchaikovsky': 'classical', 'Frédéric Chopin': 'classical',
-        'Franz Schubert': 'classical', 'Franz Liszt': 'classical', 'Richard Wagner': 'classical', 'Giuseppe Verdi': 'classical', 'Giacomo Puccini': 'classical',
-        'Claude Debussy': 'classical', 'Maurice Ravel': 'classical', 'Igor Stravinsky': 'classical', 'Antonín Dvořák': 'classical', 'Gustav Mahler': 'classical',
-        
-        // Country (15 artists)
-        'Johnny Cash': 'country', 'Dolly Parton': 'country', 'Willie Nelson': 'country', 'Luke Combs': 'country', 'Chris Stapleton': 'country',
-        'Carrie Underwood': 'country', 'Miranda Lambert': 'country', 'Kacey Musgraves': 'country', 'Zac Brown Band': 'country', 'Florida Georgia Line': 'country',
-        'Tim McGraw': 'country', 'Faith Hill': 'country', 'George Strait': 'country', 'Alan Jackson': 'country', 'Garth Brooks': 'country',
-        
-        // Reggae (10 artists)
-        'Bob Marley': 'reggae', 'Peter Tosh': 'reggae', 'Jimmy Cliff': 'reggae', 'UB40': 'reggae', 'Sean Paul': 'reggae',
-        'Shaggy': 'reggae', 'Damian Marley': 'reggae', 'Ziggy Marley': 'reggae', 'Burning Spear': 'reggae', 'Toots and the Maytals': 'reggae',
-        
-        // Blues (10 artists)
-        'B.B. King': 'blues', 'Muddy Waters': 'blues', 'Howlin Wolf': 'blues', 'John Lee Hooker': 'blues', 'Etta James': 'blues',
-        'Robert Johnson': 'blues', 'Albert King': 'blues', 'Freddie King': 'blues', 'Stevie Ray Vaughan': 'blues', 'Buddy Guy': 'blues',
-        
-        // R&B/Soul (15 artists)
-        'Marvin Gaye': 'r&b', 'Stevie Wonder': 'r&b', 'Aretha Franklin': 'r&b', 'Ray Charles': 'r&b', 'Sam Cooke': 'r&b',
-        'Otis Redding': 'r&b', 'Al Green': 'r&b', 'Curtis Mayfield': 'r&b', 'James Brown': 'r&b', 'Prince': 'r&b',
-        'Michael Jackson': 'r&b', 'Whitney Houston': 'r&b', 'Luther Vandross': 'r&b', 'Anita Baker': 'r&b', 'Sade': 'r&b',
-        
-        // Latin (10 artists)
-        'Shakira': 'latin', 'Ricky Martin': 'latin', 'Enrique Iglesias': 'latin', 'J Balvin': 'latin', 'Bad Bunny': 'latin',
-        'Maluma': 'latin', 'Ozuna': 'latin', 'Daddy Yankee': 'latin', 'Wisin': 'latin', 'Yandel': 'latin',
-        
-        // K-Pop (10 artists)
-        'BTS': 'k-pop', 'BLACKPINK': 'k-pop', 'TWICE': 'k-pop', 'Red Velvet': 'k-pop', 'EXO': 'k-pop',
-        'NCT': 'k-pop', 'Stray Kids': 'k-pop', 'ITZY': 'k-pop', 'aespa': 'k-pop', 'NewJeans': 'k-pop',
-        
-        // World Music (10 artists)
-        'Youssou N\'Dour': 'world', 'Salif Keita': 'world', 'Fela Kuti': 'world', 'Buena Vista Social Club': 'world', 'Ravi Shankar': 'world',
-        'Ali Farka Touré': 'world', 'Amadou & Mariam': 'world', 'Tinariwen': 'world', 'Seun Kuti': 'world', 'Bombino': 'world'
-      }
-      
+      // Determine genre based on artist (see data/genres.ts); unmapped artists get pop-like features
       const artistName = track.artists?.[0]?.name || ''
-      const genre = artistToGenre[artistName] || 'pop'
+      const genre = genreForArtist(artistName)
       const pattern = genrePatterns[genre as keyof typeof genrePatterns] || genrePatterns.pop
       
       // Add variation
-      const variation = () => (Math.random() - 0.5) * 0.3
+      const variation = () => (random() - 0.5) * 0.3
       
       return {
         danceability: Math.max(0, Math.min(1, pattern.danceability + variation() + (popularityFactor * 0.1))),
         energy: Math.max(0, Math.min(1, pattern.energy + variation() + (popularityFactor * 0.1))),
         valence: Math.max(0, Math.min(1, pattern.valence + variation() + (indexFactor * 0.2))),
-        tempo: Math.max(60, Math.min(200, 120 + (Math.random() - 0.5) * 60 + (popularityFactor * 20))),
+        tempo: Math.max(60, Math.min(200, 120 + (random() - 0.5) * 60 + (popularityFactor * 20))),
         acousticness: Math.max(0, Math.min(1, (1 - pattern.energy) + variation())),
-        instrumentalness: Math.max(0, Math.min(1, Math.random() * 0.3)),
-        liveness: Math.max(0, Math.min(1, Math.random() * 0.4)),
-        speechiness: Math.max(0, Math.min(1, Math.random() * 0.2)),
-        loudness: Math.max(-20, Math.min(0, -5 - (pattern.energy * 10) + (Math.random() - 0.5) * 5)),
-        mode: Math.random() > 0.5 ? 1 : 0,
-        key: Math.floor(Math.random() * 12),
-        time_signature: Math.random() > 0.1 ? 4 : 3
+        instrumentalness: Math.max(0, Math.min(1, random() * 0.3)),
+        liveness: Math.max(0, Math.min(1, random() * 0.4)),
+        speechiness: Math.max(0, Math.min(1, random() * 0.2)),
+        loudness: Math.max(-20, Math.min(0, -5 - (pattern.energy * 10) + (random() - 0.5) * 5)),
+        mode: random() > 0.5 ? 1 : 0,
+        key: Math.floor(random() * 12),
+        time_signature: random() > 0.1 ? 4 : 3,
+        genre
       }
     }
     
@@ -307,6 +240,7 @@ export async function getRecommendations(
       // Update with real features where available
       tracksWithFeatures = allTracks.map(track => {
         const features = audioFeaturesResponse.audio_features.find((f: any) => f && f.id === track.id)
+        const genre = genreForArtist(track.artists?.[0]?.name || '')
         
         if (features) {
           return {
@@ -323,6 +257,7 @@ export async function getRecommendations(
             mode: features.mode,
             key: features.key,
             time_signature: features.time_signature,
+            genre,
             popularity: track.popularity ?? 50
           }
         } else {
@@ -341,6 +276,7 @@ export async function getRecommendations(
             mode: 1,
             key: 0,
             time_signature: 4,
+            genre,
             popularity: track.popularity ?? 50
           }
         }
@@ -0,0 +1,219 @@
+// Main-thread side of the engine worker: typed requests, progress, cancellation
+import type { ScalerKind, Track } from '../../types'
+import type { EngineJob, EngineJobResults, WorkerRequest, WorkerResponse } from './protocol'
+
+type Progress = (done: number, total: number) => void
+
+interface PendingJob {
+  id: number
+  channel: string
+  job: EngineJob
+  onProgress?: Progress
+  resolve: (result: EngineJobResults[EngineJob['kind']]) => void
+  reject: (error: Error) => void
+}
+
+export interface EngineBridge {
+  load: (tracks: Track[], scalerKind: ScalerKind) => void
+  run: <J extends EngineJob>(channel: string, job: J, onProgress?: Progress) => Promise<EngineJobResults[J['kind']]>
+  cancel: (channel: string) => void
+  terminate: () => void
+}
+
+// Rejection for a request that was superseded or cancelled before it finished
+const cancelled = () => new DOMException('Engine request cancelled', 'AbortError')
+
+// Whether a rejected request was cancelled rather than failed
+export function isCancelled(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+// Engine results hold structured-clone copies of tracks; swap back the
+// main thread's own objects so identity checks and React keys stay stable
+function hydrate<K extends EngineJob['kind']>(kind: K, result: EngineJobResults[K], byId: Map<string, Track>): EngineJobResults[K] {
+  const own = (track: Track) => byId.get(track.id) ?? track
+  const value = result as EngineJobResults[EngineJob['kind']]
+  switch (kind) {
+    case 'rank':
+    case 'content':
+    case 'harmonic':
+    case 'factorized':
+      return (value as EngineJobResults['rank']).map(item => ({
+        ...item,
+        track: own(item.track),
+        ...(item.lookahead ? { lookahead: { ...item.lookahead, sequence: item.lookahead.sequence.map(own) } } : {})
+      })) as EngineJobResults[K]
+    case 'why-not': {
+      const probe = value as EngineJobResults['why-not']
+      return { ...probe, track: own(probe.track), leader: probe.leader ? own(probe.leader) : null } as EngineJobResults[K]
+    }
+    case 'constrain': {
+      const constrained = value as EngineJobResults['constrain']
+      return {
+        ...constrained,
+        tracks: constrained.tracks.map(own),
+        playlist: { ...constrained.playlist, steps: constrained.playlist.steps.map(step => ({ ...step, track: own(step.track) })) }
+      } as EngineJobResults[K]
+    }
+    case 'arc': {
+      const fit = value as EngineJobResults['arc']
+      return { ...fit, steps: fit.steps.map(step => ({ ...step, track: own(step.track) })) } as EngineJobResults[K]
+    }
+    case 'bandit-simulation': {
+      const simulation = value as EngineJobResults['bandit-simulation']
+      return {
+        ...simulation,
+        runs: simulation.runs.map(run => ({
+          ...run,
+          state: { ...run.state, arms: run.state.arms.map(arm => ({ ...arm, track: own(arm.track) })) }
+        }))
+      } as EngineJobResults[K]
+    }
+    case 'graph': {
+      const walk = value as EngineJobResults['graph']
+      return {
+        ...walk,
+        result: { ...walk.result, recommendations: walk.result.recommendations.map(item => ({ ...item, track: own(item.track) })) }
+      } as EngineJobResults[K]
+    }
+    case 'collaborative': {
+      const collaborative = value as EngineJobResults['collaborative']
+      return {
+        ...collaborative,
+        recommendations: collaborative.recommendations.map(item => ({ ...item, track: own(item.track) }))
+      } as EngineJobResults[K]
+    }
+    case 'greedy-playlist':
+    case 'optimize': {
+      const playlist = value as EngineJobResults['optimize']
+      return { ...playlist, steps: playlist.steps.map(step => ({ ...step, track: own(step.track) })) } as EngineJobResults[K]
+    }
+    case 'cluster':
+    case 'factorize':
+      return result // Ids only, no tracks to swap
+    default: {
+      const loop = value as EngineJobResults['feedback-loop']
+      return {
+        ...loop,
+        rounds: loop.rounds.map(round => ({ ...round, track: round.track ? own(round.track) : null }))
+      } as EngineJobResults[K]
+    }
+  }
+}
+
+/**
+ * Bridge to an engine Web Worker.
+ *
+ * Each request names a channel (e.g. "rank", "feedback-loop"). The worker
+ * runs one job at a time; a new request on a channel supersedes the old one:
+ * a queued job is dropped before it reaches the worker, and a running job's
+ * result is discarded when it arrives. Either way the old promise rejects
+ * with an AbortError (see `isCancelled`).
+ *
+ * `cancel` also stops a job mid-run by terminating the worker; a fresh one
+ * is started on the next request and reloaded with the last catalog.
+ *
+ * Each bridge owns one worker, so a long job holds up everything queued
+ * behind it; give slow background work a bridge of its own.
+ */
+export function createEngineBridge(): EngineBridge {
+  let worker: Worker | null = null
+  let catalog: { tracks: Track[]; scalerKind: ScalerKind; byId: Map<string, Track> } | null = null
+  let running: (PendingJob & { stale: boolean }) | null = null
+  let queue: PendingJob[] = []
+  let nextId = 1
+
+  const send = (request: WorkerRequest) => ensureWorker().postMessage(request)
+
+  function ensureWorker(): Worker {
+    if (worker) return worker
+    worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => receive(event.data)
+    worker.onerror = event => {
+      running?.reject(new Error(event.message || 'Engine worker failed'))
+      running = null
+      pump()
+    }
+    if (catalog) worker.postMessage({ type: 'load', tracks: catalog.tracks, scalerKind: catalog.scalerKind } satisfies WorkerRequest)
+    return worker
+  }
+
+  function receive(response: WorkerResponse) {
+    if (!running || response.id !== running.id) return
+    if (response.type === 'progress') {
+      if (!running.stale) running.onProgress?.(response.done, response.total)
+      return
+    }
+
+    const finished = running
+    running = null
+    if (!finished.stale) {
+      if (response.type === 'error') finished.reject(new Error(response.message))
+      else finished.resolve(hydrate(finished.job.kind, response.result, catalog?.byId ?? new Map()))
+    }
+    pump()
+  }
+
+  function pump() {
+    if (running) return
+    const next = queue.shift()
+    if (!next) return
+    running = { ...next, stale: false }
+    send({ type: 'run', id: next.id, job: next.job })
+  }
+
+  // Reject and forget every queued job on a channel
+  function dropQueued(channel: string) {
+    queue = queue.filter(pending => {
+      if (pending.channel !== channel) return true
+      pending.reject(cancelled())
+      return false
+    })
+  }
+
+  return {
+    load: (tracks, scalerKind) => {
+      catalog = { tracks, scalerKind, byId: new Map(tracks.map(track => [track.id, track])) }
+      // A worker started later is loaded with the catalog as it spawns
+      worker?.postMessage({ type: 'load', tracks, scalerKind } satisfies WorkerRequest)
+    },
+
+    run: <J extends EngineJob>(channel: string, job: J, onProgress?: Progress) => {
+      dropQueued(channel)
+      if (running?.channel === channel && !running.stale) {
+        running.stale = true
+        running.reject(cancelled())
+      }
+      return new Promise<EngineJobResults[J['kind']]>((resolve, reject) => {
+        queue.push({
+          id: nextId++,
+          channel,
+          job,
+          onProgress,
+          resolve: resolve as PendingJob['resolve'],
+          reject
+        })
+        pump()
+      })
+    },
+
+    cancel: channel => {
+      dropQueued(channel)
+      if (running?.channel !== channel) return
+      if (!running.stale) running.reject(cancelled())
+      running = null
+      worker?.terminate()
+      worker = null
+      pump()
+    },
+
+    terminate: () => {
+      queue.forEach(pending => pending.reject(cancelled()))
+      queue = []
+      if (running && !running.stale) running.reject(cancelled())
+      running = null
+      worker?.terminate()
+      worker = null
+    }
+  }
+}
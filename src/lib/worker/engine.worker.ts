@@ -0,0 +1,224 @@
+// Web Worker entry: runs engine computations off the main thread
+import type { BanditPolicy, FeatureIndex, HeadTailSplit, Normalizer, RankedTrack, Track, TrackGraph } from '../../types'
+import {
+  PERCEPTUAL_KEYS,
+  buildConstrainedPlaylist,
+  buildGreedyPlaylist,
+  buildTrackGraph,
+  clusterDbscan,
+  clusterKMeans,
+  counterfactual,
+  createFeatureIndex,
+  createNormalizer,
+  createRng,
+  debiasPopularity,
+  describePlaylist,
+  diversify,
+  fitArc,
+  hopCost,
+  jitterNoise,
+  likeProbability,
+  optimizePlaylist,
+  rankTracks,
+  recommendCollaborative,
+  recommendContentBased,
+  recommendFactorized,
+  recommendGraph,
+  recommendHarmonic,
+  simulateBandit,
+  simulateFeedbackLoop,
+  splitHeadTail,
+  trainFactorModel
+} from '../engine'
+import type { EngineJob, EngineJobResults, RerankSettings, WorkerRequest, WorkerResponse } from './protocol'
+
+// Catalog state, rebuilt only when the main thread loads new tracks or a new scaler
+interface Catalog {
+  tracks: Track[]
+  byId: Map<string, Track>
+  normalizer: Normalizer        // The app's active scaler
+  minMax: Normalizer            // Min-max, for diversity and simulations
+  index: FeatureIndex
+  graph: () => TrackGraph       // Similarity graph over min-max features, built on first use
+}
+
+let catalog: Catalog | null = null
+
+const post = (response: WorkerResponse) => self.postMessage(response)
+
+function rerank(ranked: RankedTrack[], settings: RerankSettings, split: HeadTailSplit, normalizer: Normalizer): RankedTrack[] {
+  return diversify(
+    debiasPopularity(ranked, { split, ipw: settings.ipw, boost: settings.boost }),
+    { method: settings.method, lambda: settings.lambda, limit: settings.limit, normalizer }
+  )
+}
+
+function runJob(job: EngineJob, current: Catalog, progress: (done: number, total: number) => void): EngineJobResults[EngineJob['kind']] {
+  const { tracks, byId, normalizer, minMax, index, graph } = current
+  const resolve = (id: string) => {
+    const track = byId.get(id)
+    if (!track) throw new Error(`Unknown track "${id}"`)
+    return track
+  }
+  const known = (ids: string[]) => ids.map(id => byId.get(id)).filter((track): track is Track => !!track)
+
+  if (job.kind === 'rank') {
+    // The index covers the whole catalog, so a subset is scanned instead
+    return rankTracks(job.trackIds ? known(job.trackIds) : tracks, {
+      ...job.config,
+      normalizer,
+      index: job.trackIds ? undefined : index,
+      random: job.seed === undefined ? undefined : createRng(job.seed)
+    })
+  }
+
+  if (job.kind === 'greedy-playlist') {
+    return buildGreedyPlaylist(known(job.trackIds), resolve(job.startId), { ...job.options, normalizer })
+  }
+
+  if (job.kind === 'collaborative') {
+    return recommendCollaborative(job.listeners, tracks, resolve(job.seedId), job.options)
+  }
+
+  if (job.kind === 'content') {
+    return recommendContentBased(tracks, resolve(job.seedId), job.options)
+  }
+
+  if (job.kind === 'harmonic') {
+    return recommendHarmonic(tracks, resolve(job.seedId), job.options)
+  }
+
+  if (job.kind === 'factorized') {
+    return recommendFactorized(job.model, tracks, job.userId, job.options)
+  }
+
+  if (job.kind === 'optimize') {
+    return optimizePlaylist(known(job.trackIds), { ...job.options, normalizer })
+  }
+
+  if (job.kind === 'cluster') {
+    return job.method === 'kmeans'
+      ? clusterKMeans(tracks, { random: createRng(job.seed), normalizer: minMax })
+      : clusterDbscan(tracks, { eps: job.eps, normalizer: minMax })
+  }
+
+  if (job.kind === 'why-not') {
+    return counterfactual(tracks, resolve(job.trackId), {
+      ...job.options,
+      normalizer,
+      noise: jitterNoise(createRng(job.seed), job.jitter)
+    })
+  }
+
+  if (job.kind === 'constrain') {
+    // The active algorithm's order first, then hop distance from the current track
+    const options = { ...job.options, normalizer }
+    const preference = new Map(job.preferenceIds.map((id, i) => [id, i]))
+    const result = buildConstrainedPlaylist(known(job.trackIds), {
+      constraints: job.constraints,
+      start: resolve(job.startId),
+      rank: (playing, candidates) => {
+        const hop = (track: Track) => playing ? hopCost(playing, track, options) : 0
+        const order = (track: Track) => preference.get(track.id) ?? preference.size
+        return [...candidates].sort((a, b) => order(a) - order(b) || hop(a) - hop(b))
+      }
+    })
+    return { ...result, playlist: describePlaylist(result.tracks, options) }
+  }
+
+  if (job.kind === 'arc') {
+    return fitArc(tracks, { ...job.options, normalizer: minMax })
+  }
+
+  if (job.kind === 'bandit-simulation') {
+    const arms = known(job.trackIds)
+    const policies: BanditPolicy[] = ['epsilon-greedy', 'ucb1', 'thompson']
+    return {
+      bestRate: Math.max(...arms.map(track => likeProbability(job.listener, track))),
+      runs: policies.map(policy => ({
+        policy,
+        state: simulateBandit(arms, job.listener, {
+          policy,
+          rounds: job.rounds,
+          epsilon: job.epsilon,
+          random: createRng(job.seeds[policy])
+        })
+      }))
+    }
+  }
+
+  if (job.kind === 'graph') {
+    const seed = resolve(job.seedId)
+    const trackGraph = graph()
+    return {
+      result: recommendGraph(tracks, trackGraph, seed, job.walk),
+      edgeCount: trackGraph.edgeCount,
+      seedEdges: trackGraph.edges[seed.id] ?? []
+    }
+  }
+
+  if (job.kind === 'factorize') {
+    return trainFactorModel(job.interactions, tracks, { ...job.options, random: createRng(job.seed) })
+  }
+
+  const start = byId.get(job.startId)
+  if (!start) throw new Error(`Unknown start track "${job.startId}"`)
+  const split = splitHeadTail(tracks, job.rerank.headShare)
+  return simulateFeedbackLoop(tracks, {
+    recommend: ({ preference, current: playing, round }) => {
+      if (round % 10 === 0) progress(round, job.rounds)
+      if (job.algorithm === 'collaborative') return rerank(recommendCollaborative(job.listeners, tracks, playing, { limit: job.candidates }).recommendations, job.rerank, split, minMax)
+      if (job.algorithm === 'content') return rerank(recommendContentBased(tracks, playing, { limit: job.candidates }), job.rerank, split, minMax)
+      if (job.algorithm === 'harmonic') return rerank(recommendHarmonic(tracks, playing, { limit: job.candidates }), job.rerank, split, minMax)
+      if (job.algorithm === 'graph') return rerank(recommendGraph(tracks, graph(), playing, { ...job.walk, limit: job.candidates }).recommendations, job.rerank, split, minMax)
+      // Greedy, beam search, the bandit and matrix factorization (which has no
+      // factors for a simulated listener) chase the listener's taste directly
+      return rerank(rankTracks(tracks, {
+        mode: job.algorithm === 'search' ? 'search' : 'greedy',
+        from: playing,
+        target: preference,
+        keys: PERCEPTUAL_KEYS,
+        normalizer: minMax,
+        beamWidth: job.beamWidth,
+        depth: job.depth,
+        shortlist: job.candidates,
+        limit: job.candidates
+      }), job.rerank, split, minMax)
+    },
+    start,
+    rounds: job.rounds,
+    acceptance: job.acceptance,
+    normalizer: minMax,
+    random: createRng(job.seed)
+  })
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data
+
+  if (request.type === 'load') {
+    const normalizer = createNormalizer(request.tracks, request.scalerKind)
+    const minMax = createNormalizer(request.tracks, 'minmax')
+    let trackGraph: TrackGraph | null = null
+    catalog = {
+      tracks: request.tracks,
+      byId: new Map(request.tracks.map(track => [track.id, track])),
+      normalizer,
+      minMax,
+      index: createFeatureIndex(request.tracks, { normalizer }),
+      graph: () => {
+        if (!trackGraph) trackGraph = buildTrackGraph(request.tracks, { normalizer: minMax })
+        return trackGraph
+      }
+    }
+    return
+  }
+
+  try {
+    if (!catalog) throw new Error('No catalog loaded')
+    const result = runJob(request.job, catalog, (done, total) => post({ type: 'progress', id: request.id, done, total }))
+    post({ type: 'result', id: request.id, result })
+  } catch (error) {
+    post({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) })
+  }
+}
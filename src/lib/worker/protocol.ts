@@ -0,0 +1,179 @@
+// Messages between the main thread and the engine worker
+import type {
+  AcceptanceModel,
+  AlgorithmConfig,
+  ArcFit,
+  BanditPolicy,
+  BanditState,
+  ClusterMethod,
+  Clustering,
+  CollaborativeResult,
+  ConstrainedPlaylist,
+  Counterfactual,
+  DiversityMethod,
+  FactorModel,
+  FeedbackLoopResult,
+  GraphEdge,
+  GraphResult,
+  Interaction,
+  Listener,
+  OptimizedPlaylist,
+  Playlist,
+  PlaylistConstraints,
+  RankedTrack,
+  ScalerKind,
+  Track
+} from '../../types'
+import type { ArcOptions, CollaborativeOptions, ContentOptions, CounterfactualOptions, FactorizationOptions, FactorRecommendOptions, HarmonicOptions, OptimalOptions, PlaylistOptions, WalkOptions } from '../engine'
+
+// Popularity and diversity re-ranking applied to each round of a simulation
+export interface RerankSettings {
+  ipw: boolean
+  boost: number
+  headShare: number
+  method: DiversityMethod
+  lambda: number
+  limit: number
+}
+
+// Every bandit policy run against the same simulated listener
+export interface BanditSimulation {
+  bestRate: number // Like probability of the listener's favourite arm
+  runs: Array<{ policy: BanditPolicy; state: BanditState }>
+}
+
+// A graph walk, with just enough of the graph to describe it
+export interface GraphWalk {
+  result: GraphResult
+  edgeCount: number      // Links in the whole graph
+  seedEdges: GraphEdge[] // Links from the track the walk starts on
+}
+
+// Computations the worker runs against its loaded catalog. Functions can't
+// cross the thread boundary, so random streams travel as seeds and the
+// normalizer and index are rebuilt in the worker from the catalog.
+export type EngineJob =
+  | {
+      kind: 'rank'
+      config: Omit<AlgorithmConfig, 'weight' | 'random' | 'normalizer' | 'index'>
+      seed?: number       // Jitter stream seed
+      trackIds?: string[] // Rank only these tracks (the whole catalog, through the index, when unset)
+    }
+  | {
+      kind: 'greedy-playlist'
+      trackIds: string[] // Tracks the playlist may use, start included
+      startId: string
+      options: Omit<PlaylistOptions, 'normalizer'>
+    }
+  | {
+      kind: 'collaborative'
+      seedId: string
+      listeners: Listener[]
+      options: CollaborativeOptions
+    }
+  | {
+      kind: 'content'
+      seedId: string
+      options: ContentOptions
+    }
+  | {
+      kind: 'harmonic'
+      seedId: string
+      options: HarmonicOptions
+    }
+  | {
+      kind: 'factorized'
+      model: FactorModel
+      userId: string
+      options: FactorRecommendOptions
+    }
+  | {
+      kind: 'cluster'
+      method: ClusterMethod
+      eps: number  // DBSCAN radius
+      seed: number // k-means initialization seed
+    }
+  | {
+      kind: 'why-not'
+      trackId: string
+      options: Omit<CounterfactualOptions, 'normalizer' | 'noise'>
+      jitter: number // Replays the slider ranking's jitter…
+      seed: number   // …from the same stream
+    }
+  | {
+      kind: 'constrain'
+      trackIds: string[]      // Tracks the playlist may use, start included
+      startId: string
+      constraints: PlaylistConstraints
+      preferenceIds: string[] // Active algorithm's ranking from the start, best first
+      options: Omit<PlaylistOptions, 'normalizer'>
+    }
+  | {
+      kind: 'arc'
+      options: Omit<ArcOptions, 'normalizer'>
+    }
+  | {
+      kind: 'bandit-simulation'
+      trackIds: string[]
+      listener: Listener
+      rounds: number
+      epsilon: number
+      seeds: Record<BanditPolicy, number> // One sampling stream per policy
+    }
+  | {
+      kind: 'graph'
+      seedId: string
+      walk: WalkOptions
+    }
+  | {
+      kind: 'optimize'
+      trackIds: string[]
+      options: Omit<OptimalOptions, 'normalizer'>
+    }
+  | {
+      kind: 'factorize'
+      interactions: Interaction[]
+      options: Omit<FactorizationOptions, 'random'>
+      seed: number // Initialization and sampling seed
+    }
+  | {
+      kind: 'feedback-loop'
+      algorithm: string // Active algorithm id, as in the app's ALGORITHMS
+      startId: string
+      rounds: number
+      acceptance: AcceptanceModel
+      seed: number
+      candidates: number
+      beamWidth: number
+      depth: number
+      listeners: Listener[]
+      walk: Omit<WalkOptions, 'limit'> // Graph walk settings
+      rerank: RerankSettings
+    }
+
+export interface EngineJobResults {
+  rank: RankedTrack[]
+  'greedy-playlist': Playlist
+  collaborative: CollaborativeResult
+  content: RankedTrack[]
+  harmonic: RankedTrack[]
+  factorized: RankedTrack[]
+  cluster: Clustering
+  'why-not': Counterfactual
+  constrain: ConstrainedPlaylist & { playlist: Playlist }
+  arc: ArcFit
+  'bandit-simulation': BanditSimulation
+  graph: GraphWalk
+  optimize: OptimizedPlaylist
+  factorize: FactorModel
+  'feedback-loop': FeedbackLoopResult
+}
+
+export type WorkerRequest =
+  | { type: 'load'; tracks: Track[]; scalerKind: ScalerKind }
+  | { type: 'run'; id: number; job: EngineJob }
+
+export type WorkerResponse =
+  | { type: 'progress'; id: number; done: number; total: number }
+  | { type: 'result'; id: number; result: EngineJobResults[EngineJob['kind']] }
+  | { type: 'error'; id: number; message: string }
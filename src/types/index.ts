@@ -1,9 +1,16 @@
 // Type definitions for The Algorithmic Ear
 
+// Genre from the artist map in data/genres.ts
+export type Genre =
+  | 'pop' | 'electronic' | 'rock' | 'hip-hop' | 'indie' | 'jazz' | 'classical'
+  | 'country' | 'reggae' | 'blues' | 'r&b' | 'latin' | 'k-pop' | 'world'
+  | 'unknown' // Artist not in the map
+
 export interface Track {
   id: string
   name: string
   artist: string
+  genre: Genre
   preview: string | null
   popularity: number
   // Audio features
@@ -58,13 +65,350 @@ export interface TokenResponse {
   expires_in: number
 }
 
+// Numeric audio features the engine can rank on
+export type FeatureKey =
+  | 'danceability'
+  | 'energy'
+  | 'valence'
+  | 'tempo'
+  | 'acousticness'
+  | 'instrumentalness'
+  | 'liveness'
+  | 'speechiness'
+  | 'loudness'
+  | 'mode'
+  | 'key'
+  | 'time_signature'
+
+// Seeded randomness shared across the app
+export interface RandomService {
+  seed: number
+  fork: (label: string) => () => number // Independent generator for one consumer
+  derive: (label: string) => number     // Child seed for one consumer
+}
+
+// How raw feature values are mapped onto a common scale
+export type ScalerKind = 'minmax' | 'zscore' | 'percentile'
+
+export interface FeatureScaler {
+  domain: [number, number]              // Normalized range covered by the catalog
+  transform: (value: number) => number  // Raw units -> normalized
+  invert: (normalized: number) => number // Normalized -> raw units
+}
+
+export interface Normalizer {
+  kind: ScalerKind
+  scalers: Partial<Record<FeatureKey, FeatureScaler>>
+  normalize: (key: FeatureKey, value: number) => number
+  denormalize: (key: FeatureKey, normalized: number) => number
+  domain: (key: FeatureKey) => [number, number]
+}
+
 export interface AlgorithmConfig {
   mode: 'greedy' | 'search'
   weight?: (track: Track) => number
-  target?: Partial<Pick<Track, 'energy' | 'valence' | 'danceability'>>
-  keys?: Array<keyof Pick<Track, 'energy' | 'valence' | 'danceability'>>
+  target?: Partial<Pick<Track, FeatureKey>> // In normalized units when a normalizer is set
+  keys?: FeatureKey[]
+  limit?: number
+  jitter?: number
+  random?: () => number // Jitter source (defaults to a generator seeded with DEFAULT_SEED)
+  normalizer?: Normalizer
+  from?: Track       // Track the listener is on now (search mode adds hop cost from it)
+  beamWidth?: number // Search mode: sequences kept per step
+  depth?: number     // Search mode: tracks looked ahead, including the next one
+  shortlist?: number // Search mode: plan only from this many tracks nearest the target (all when unset)
+  index?: FeatureIndex // Spatial index over the same tracks and normalizer
+}
+
+export interface RankedTrack {
+  track: Track
+  score: number    // Ranking score, lower ranks first
+  distance: number // Distance from the target or seed track
+  rank: number     // 1-based position in the ranking
+  explanation?: RankExplanation
+  lookahead?: BeamCandidate // Search mode: the planned sequence behind the score
+}
+
+// One feature's part in a ranked track's distance from the target
+export interface FeatureContribution {
+  key: FeatureKey
+  value: number  // Track's value, in the ranking's (normalized) units
+  target: number // Value it was compared against
+  share: number  // |value − target| / features ranked on; shares sum to the distance
+}
+
+// Why a ranked track landed where it did
+export interface RankExplanation {
+  contributions: FeatureContribution[] // Largest share first; empty when the score isn't a feature distance
+  jitter: number                       // Random noise added to the score
+  adjustment: number                   // Score change from popularity re-ranking, 0 when off
+  margin: number | null                // Score lead over the next-ranked track, null for the last
+}
+
+export interface Neighbor {
+  track: Track
+  distance: number // Mean absolute difference on the queried features
+}
+
+// Spatial index over a catalog's feature vectors
+export interface FeatureIndex {
+  size: number
+  keys: FeatureKey[] // Features that can be queried
+  nearest: (target: Partial<Pick<Track, FeatureKey>>, k: number, keys?: FeatureKey[]) => Neighbor[]
+  withinRadius: (target: Partial<Pick<Track, FeatureKey>>, radius: number, keys?: FeatureKey[]) => Neighbor[]
+}
+
+// What would have to change for a track to become the top pick
+export interface Counterfactual {
+  track: Track
+  rank: number                 // Where it ranks now, by distance plus any `noise` (the list's jitter)
+  leader: Track | null         // Current top pick, null when the track already leads
+  blocking: FeatureKey | null  // Feature where it loses most ground to the leader, if any
+  targetShift: {               // Nearest target (toward the track's own values) where it leads
+    target: Partial<Pick<Track, FeatureKey>>
+    change: number             // Mean absolute move per feature
+  } | null
+  weightShift: {               // Smallest single-feature reweighting where it leads
+    key: FeatureKey
+    weight: number
+  } | null
 }
 
+// Suggested tempo move from one track into the next
+export interface TempoTransition {
+  ratio: string        // from:to beat ratio, e.g. "1:2" for a double-time mix
+  targetBpm: number    // Tempo the incoming track is played at
+  adjustment: number   // Pitch/tempo change applied to the incoming track, as a fraction
+  compatible: boolean  // Adjustment is within the pitch-shift tolerance
+  meterMatch: boolean  // Same time signature
+  cost: number         // 0 = seamless, 1 = doesn't mix
+}
+
+export interface PlaylistStep {
+  track: Track
+  position: number           // 0-based position in the playlist
+  hopDistance: number        // Distance from the previous track (0 for the first)
+  cumulativeDistance: number // Sum of hop distances so far
+  drift: number              // Direct distance from the starting track
+  tempo?: TempoTransition    // Tempo move into this track, when tempo scoring is on
+}
+
+export interface Playlist {
+  steps: PlaylistStep[]
+  totalCost: number // Sum of every hop distance
+}
+
+// A reordering of a playlist's tracks that lowers total transition cost
+export interface OptimizedPlaylist extends Playlist {
+  method: 'dynamic-programming' | 'local-search'
+}
+
+// Rules a playlist must follow on top of whichever algorithm fills it
+export interface PlaylistConstraints {
+  length: number                 // Total tracks, including the start
+  artistGap?: number             // No artist repeats within this many tracks (0 = off)
+  maxGenreShare?: number         // Largest share of the playlist one genre may take (1 = off)
+  required?: string[]            // Track ids that must appear
+  banned?: string[]              // Track ids that must not
+  bounds?: Partial<Record<FeatureKey, { min?: number; max?: number }>> // Allowed ranges, in real units
+}
+
+export type ConstraintKind = 'length' | 'artist-gap' | 'genre-share' | 'required' | 'banned' | 'feature-bounds'
+
+// A rule the constraint builder loosened, or could not meet at all
+export interface ConstraintIssue {
+  kind: ConstraintKind
+  position: number | null // Playlist position concerned, null for the playlist as a whole
+  trackId?: string
+  message: string
+}
+
+export interface ConstrainedPlaylist {
+  tracks: Track[]
+  relaxations: ConstraintIssue[] // Soft rules loosened to fill a position
+  violations: ConstraintIssue[]  // Rules the finished playlist still breaks
+}
+
+// One position of a playlist fitted to a target curve
+export interface ArcStep {
+  track: Track
+  position: number
+  target: number // Target value at this position, normalized
+  value: number  // The track's normalized value
+}
+
+export interface ArcFit {
+  steps: ArcStep[]
+  error: number // Mean absolute miss from the curve
+}
+
+// Popular head vs. long tail of the catalog
+export interface HeadTailSplit {
+  threshold: number      // Lowest popularity still in the head
+  headIds: Set<string>
+}
+
+// How a simulated listener responds to a round of recommendations
+export type AcceptanceModel = 'always' | 'probabilistic' | 'picky'
+
+export interface FeedbackRound {
+  round: number      // 1-based
+  track: Track | null // Accepted track, null if every recommendation was rejected
+  drift: number      // Distance of the listener's taste from where it started
+  coverage: number   // Share of the catalog recommended at least once so far
+  diversity: number  // Intra-list diversity of recently accepted tracks
+}
+
+export interface FeedbackLoopResult {
+  rounds: FeedbackRound[]
+  finalPreference: Partial<Pick<Track, FeatureKey>>
+}
+
+export type ClusterMethod = 'kmeans' | 'dbscan'
+
+// Whether the next track must stay in the current track's cluster or leave it
+export type ClusterScope = 'any' | 'stay' | 'jump'
+
+export interface TrackCluster {
+  id: number
+  description: string                          // e.g. "high energy, low acousticness"
+  trackIds: string[]
+  centroid: Partial<Pick<Track, FeatureKey>>   // Mean track, in real units
+}
+
+export interface Clustering {
+  method: ClusterMethod
+  clusters: TrackCluster[]
+  assignments: Map<string, number> // Track id -> cluster id, -1 for noise
+  noise: number                    // Tracks in no cluster (DBSCAN only)
+  silhouette: number
+}
+
+// Post-processing applied to a ranked list to spread it out
+export type DiversityMethod = 'none' | 'mmr' | 'dpp'
+
+// A candidate sequence explored by beam search
+export interface BeamCandidate {
+  sequence: Track[] // Tracks after the starting point, in play order
+  cost: number      // Summed step cost, lower is better
+}
+
+export interface BeamSearchResult {
+  best: BeamCandidate | null
+  beam: BeamCandidate[] // Surviving sequences after the final step, best first
+}
+
+// Synthetic listener used by collaborative filtering
+export interface Listener {
+  id: string
+  taste: Partial<Pick<Track, FeatureKey>>
+  mainstream: number             // 0 = crate digger, 1 = charts only
+  plays: Record<string, number>  // Track id -> play count
+}
+
+export interface ListenerNeighbor {
+  listener: Listener
+  similarity: number
+}
+
+export interface CollaborativeResult {
+  recommendations: RankedTrack[]
+  neighbors: ListenerNeighbor[]
+  seedListeners: number // Listeners who have played the seed track
+  coldStart: boolean    // Too few co-listeners to trust the neighbourhood
+}
+
+// What a listener did with a track, for implicit-feedback models
+export type InteractionKind = 'play' | 'skip' | 'like'
+
+export interface Interaction {
+  userId: string
+  trackId: string
+  kind: InteractionKind
+}
+
+export type FactorizationMethod = 'als' | 'bpr'
+
+// Latent factors learned from an interaction log
+export interface FactorModel {
+  method: FactorizationMethod
+  factors: number                 // Latent dimensions
+  users: Record<string, number[]> // User id -> factor vector
+  items: Record<string, number[]> // Track id -> factor vector; tracks nobody touched are left out
+  loss: number[]                  // Training loss after each iteration
+}
+
+// Why two tracks are linked in the similarity graph
+export type EdgeKind = 'similar' | 'artist' | 'genre'
+
+export interface GraphEdge {
+  to: string
+  weight: number
+  kinds: EdgeKind[]
+}
+
+// Track-similarity graph: undirected, stored as adjacency lists both ways
+export interface TrackGraph {
+  edges: Record<string, GraphEdge[]> // Track id -> its neighbours
+  edgeCount: number
+}
+
+export interface GraphResult {
+  recommendations: RankedTrack[]
+  scores: Record<string, number> // Track id -> visit probability, the seed included
+  hops: Record<string, number>   // Track id -> fewest edges from the seed; missing when unreachable
+}
+
+// Position on the Camelot wheel: 1-12 around the circle of fifths, A = minor, B = major
+export interface CamelotCode {
+  number: number
+  letter: 'A' | 'B'
+}
+
+// How one key moves to the next on the Camelot wheel
+export type HarmonicRelation =
+  | 'same'      // Identical key
+  | 'relative'  // Relative major/minor, same number
+  | 'up'        // +1 step, a fifth up
+  | 'down'      // -1 step, a fifth down
+  | 'diagonal'  // ±1 step with a major/minor switch
+  | 'clash'     // Anything further
+  | 'unknown'   // No key detected
+
+// Exploration policy for the multi-armed bandit
+export type BanditPolicy = 'epsilon-greedy' | 'ucb1' | 'thompson'
+
+// Where bandit like/skip feedback comes from
+export type FeedbackSource = 'simulated' | 'you'
+
+// One track the bandit can play, with its feedback so far
+export interface BanditArm {
+  track: Track
+  pulls: number  // Times played
+  reward: number // Summed reward (likes)
+}
+
+export interface BanditRound {
+  trackId: string
+  reward: number           // 1 = like, 0 = skip
+  explored: boolean        // Picked something other than the best-looking arm
+  cumulativeReward: number
+}
+
+export interface BanditState {
+  arms: BanditArm[]
+  history: BanditRound[]
+}
+
+// The arm a policy wants to play next
+export interface BanditChoice {
+  index: number    // Position in BanditState.arms
+  explored: boolean
+}
+
+// How the feature space is flattened to 2D for the catalog map
+export type ProjectionMethod = 'pca' | 'tsne'
+
 export interface VisualizationPoint {
   x: number
   y: number